@@ -0,0 +1,290 @@
+import { createDecipheriv } from 'crypto';
+import { RemoteInfo } from 'dgram';
+import createMockInstance from 'jest-create-mock-instance';
+import { AqaraClient } from '../client';
+import { AqaraNetwork } from '../network';
+import { ConsoleLogger } from '../../miio/logger';
+import { MessageHandler } from '../../miio/network';
+import {
+  AqaraGatewayError,
+  MiIOAbortError,
+  MiIOClientClosedError,
+  MiIOTimeoutError,
+} from '../../miio/errors';
+import { AqaraMessage, getAqaraWriteKey } from '../messages';
+
+jest.mock('../../miio/logger');
+
+const GATEWAY_ADDRESS = '192.168.1.10';
+const PASSWORD = '0123456789abcdef';
+const TOKEN = 'x7mxNhnwhGRyVfGJ';
+
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('AqaraClient', () => {
+  let network: jest.Mocked<AqaraNetwork>;
+  let messageHandler: MessageHandler;
+  let client: AqaraClient;
+
+  function createClient(address?: string) {
+    client = new AqaraClient(network, new ConsoleLogger(), {
+      address,
+      password: PASSWORD,
+      requestTimeout: 1000,
+    });
+    client.subscribeToMessages();
+    return client;
+  }
+
+  function receive(message: AqaraMessage, address = GATEWAY_ADDRESS) {
+    messageHandler(Buffer.from(JSON.stringify(message)), {
+      address,
+      port: 9898,
+    } as RemoteInfo);
+  }
+
+  beforeEach(() => {
+    network = createMockInstance(AqaraNetwork);
+    network.send.mockResolvedValue(10);
+    network.addMessageHandler.mockImplementation(handler => {
+      messageHandler = handler;
+      return () => undefined;
+    });
+    network.addCloseHandler.mockReturnValue(() => undefined);
+  });
+
+  it('discovers the gateway', async () => {
+    createClient();
+    const promise = client.discover();
+    await flushPromises();
+    receive({
+      cmd: 'iam',
+      port: '9898',
+      sid: 'f0b429aa1463',
+      model: 'gateway',
+      proto_version: '1.1.2',
+      ip: GATEWAY_ADDRESS,
+    });
+
+    expect(await promise).toEqual({
+      sid: 'f0b429aa1463',
+      address: GATEWAY_ADDRESS,
+      port: 9898,
+      protoVersion: '1.1.2',
+    });
+    expect(network.send).toBeCalledWith({ cmd: 'whois' }, '224.0.0.50', 4321);
+    expect(client.address).toBe(GATEWAY_ADDRESS);
+  });
+
+  it('lists the devices', async () => {
+    createClient(GATEWAY_ADDRESS);
+    const promise = client.getIdList();
+    await flushPromises();
+    receive({
+      cmd: 'get_id_list_ack',
+      sid: 'f0b429aa1463',
+      token: TOKEN,
+      data: '["158d0001","158d0002"]',
+    });
+
+    expect(await promise).toEqual(['158d0001', '158d0002']);
+    expect(network.send).toBeCalledWith(
+      { cmd: 'get_id_list' },
+      GATEWAY_ADDRESS,
+      9898
+    );
+  });
+
+  it('reads the state of a device', async () => {
+    createClient(GATEWAY_ADDRESS);
+    const promise = client.read('158d0001');
+    await flushPromises();
+    // Replies of other devices are not matched.
+    receive({ cmd: 'read_ack', sid: '158d0002', data: '{}' });
+    receive({
+      cmd: 'read_ack',
+      model: 'sensor_ht',
+      sid: '158d0001',
+      data: '{"temperature":"2450","humidity":"5300"}',
+    });
+
+    expect(await promise).toEqual({
+      sid: '158d0001',
+      model: 'sensor_ht',
+      data: { temperature: '2450', humidity: '5300' },
+    });
+  });
+
+  describe('write', () => {
+    it('signs writes with the latest token', async () => {
+      createClient(GATEWAY_ADDRESS);
+      receive({ cmd: 'heartbeat', model: 'gateway', sid: 'gw', token: TOKEN });
+      const promise = client.write('158d0003', { status: 'on' });
+      await flushPromises();
+      receive({
+        cmd: 'write_ack',
+        model: 'plug',
+        sid: '158d0003',
+        data: '{"status":"on"}',
+      });
+
+      expect((await promise).data).toEqual({ status: 'on' });
+      expect(network.send).toBeCalledWith(
+        {
+          cmd: 'write',
+          sid: '158d0003',
+          data: JSON.stringify({
+            status: 'on',
+            key: getAqaraWriteKey(PASSWORD, TOKEN),
+          }),
+        },
+        GATEWAY_ADDRESS,
+        9898
+      );
+    });
+
+    it('fetches the token when missing', async () => {
+      createClient(GATEWAY_ADDRESS);
+      const promise = client.write('158d0003', { status: 'off' });
+      await flushPromises();
+      receive({ cmd: 'get_id_list_ack', token: TOKEN, data: '[]' });
+      await flushPromises();
+      receive({ cmd: 'write_ack', sid: '158d0003', data: '{}' });
+
+      await promise;
+      expect(network.send).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          data: expect.stringContaining(getAqaraWriteKey(PASSWORD, TOKEN)),
+        }),
+        GATEWAY_ADDRESS,
+        9898
+      );
+    });
+
+    it('rejects errors reported by the gateway', async () => {
+      createClient(GATEWAY_ADDRESS);
+      receive({ cmd: 'heartbeat', sid: 'gw', token: TOKEN });
+      const promise = client.write('158d0003', { status: 'on' });
+      await flushPromises();
+      receive({
+        cmd: 'write_ack',
+        sid: '158d0003',
+        data: '{"error":"Invalid key"}',
+      });
+
+      await expect(promise).rejects.toThrow(
+        new AqaraGatewayError('Invalid key')
+      );
+    });
+
+    it('requires the password', async () => {
+      client = new AqaraClient(network, new ConsoleLogger(), {
+        address: GATEWAY_ADDRESS,
+      });
+
+      await expect(client.write('158d0003', {})).rejects.toThrow(
+        AqaraGatewayError
+      );
+      expect(network.send).not.toBeCalled();
+    });
+  });
+
+  it('encrypts the token with the password', () => {
+    const key = getAqaraWriteKey(PASSWORD, TOKEN);
+    const decipher = createDecipheriv(
+      'aes-128-cbc',
+      Buffer.from(PASSWORD),
+      Buffer.from('17996d093d28ddb3ba695a2e6f58562e', 'hex')
+    );
+    decipher.setAutoPadding(false);
+
+    expect(key).toHaveLength(32);
+    expect(
+      Buffer.concat([
+        decipher.update(Buffer.from(key, 'hex')),
+        decipher.final(),
+      ]).toString()
+    ).toBe(TOKEN);
+  });
+
+  it('emits reports and heartbeats of the gateway', () => {
+    createClient(GATEWAY_ADDRESS);
+    const onReport = jest.fn();
+    const onHeartbeat = jest.fn();
+    client.on('report', onReport);
+    client.on('heartbeat', onHeartbeat);
+
+    receive({
+      cmd: 'report',
+      model: 'magnet',
+      sid: 'a',
+      data: '{"status":"open"}',
+    });
+    receive({ cmd: 'heartbeat', model: 'magnet', sid: 'a', data: '{}' });
+    receive(
+      { cmd: 'report', model: 'magnet', sid: 'b', data: '{}' },
+      '192.168.1.11'
+    );
+
+    expect(onReport).toBeCalledTimes(1);
+    expect(onReport).toBeCalledWith({
+      sid: 'a',
+      model: 'magnet',
+      data: { status: 'open' },
+    });
+    expect(onHeartbeat).toBeCalledWith({ sid: 'a', model: 'magnet', data: {} });
+  });
+
+  describe('pending requests', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('times out', async () => {
+      jest.useFakeTimers('modern');
+      createClient(GATEWAY_ADDRESS);
+      const promise = client.read('158d0001');
+      await flushPromises();
+      jest.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toThrow(MiIOTimeoutError);
+    });
+
+    it('is aborted', async () => {
+      createClient(GATEWAY_ADDRESS);
+      const controller = new AbortController();
+      const promise = client.read('158d0001', { signal: controller.signal });
+      await flushPromises();
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(MiIOAbortError);
+    });
+
+    it('is cleared when sending fails', async () => {
+      jest.useFakeTimers('modern');
+      createClient(GATEWAY_ADDRESS);
+      const error = new Error('bind EADDRINUSE');
+      network.send.mockRejectedValue(error);
+
+      await expect(client.read('158d0001')).rejects.toBe(error);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('is rejected on close', async () => {
+      createClient(GATEWAY_ADDRESS);
+      const promise = client.read('158d0001');
+      await flushPromises();
+      await client.close();
+
+      await expect(promise).rejects.toThrow(MiIOClientClosedError);
+      await expect(client.read('158d0001')).rejects.toThrow(
+        MiIOClientClosedError
+      );
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { MiIOClientClosedError } from '../../miio/errors';
+import { ConsoleLogger } from '../../miio/logger';
+import { createAqaraClient } from '../factory';
+
+jest.mock('../../miio/logger');
+
+describe('createAqaraClient', () => {
+  // Plays a gateway which never replies.
+  let peer: Socket;
+
+  beforeEach(async () => {
+    peer = createSocket('udp4');
+    await new Promise<void>(resolve => peer.bind(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => peer.close(resolve));
+  });
+
+  it('rejects pending requests and closes the socket on close', async () => {
+    const { port } = peer.address() as AddressInfo;
+    const received = new Promise(resolve => peer.once('message', resolve));
+    const client = createAqaraClient({
+      address: '127.0.0.1',
+      port,
+      requestTimeout: 60000,
+      logger: new ConsoleLogger(),
+    });
+    const pending = client.getIdList();
+    await received;
+    await client.close();
+    await expect(pending).rejects.toBeInstanceOf(MiIOClientClosedError);
+    expect(client.isClosed).toBe(true);
+    await expect(client.getIdList()).rejects.toBeInstanceOf(
+      MiIOClientClosedError
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { Socket } from 'dgram';
+import { AqaraNetwork } from '../network';
+import { ConsoleLogger, Logger } from '../../miio/logger';
+
+jest.mock('dgram');
+jest.mock('../../miio/logger');
+
+function findHandler(fn: jest.Mocked<Socket>['on'], message: string) {
+  const args = fn.mock.calls.find(([event]) => event === message);
+  if (!args) {
+    throw new Error(`Not able to find handler "${message}"`);
+  }
+  return args[1] as Function;
+}
+
+describe('AqaraNetwork', () => {
+  let logger: Logger;
+  let socket: jest.Mocked<Socket>;
+  let network: AqaraNetwork;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    logger = jest.mocked(new ConsoleLogger());
+    socket = jest.mocked(new Socket());
+    socket.address.mockReturnValue({
+      address: '0.0.0.0',
+      family: 'IPv4',
+      port: 9898,
+    });
+    network = new AqaraNetwork(socket, logger);
+  });
+
+  it('binds the command port and joins the multicast group', async () => {
+    const promise = network.ensureReady();
+    findHandler(socket.on, 'listening')();
+    await promise;
+
+    expect(socket.bind).toBeCalledWith(9898);
+    expect(socket.addMembership).toBeCalledWith('224.0.0.50');
+  });
+
+  it('rejects when the port cannot be bound', async () => {
+    const promise = network.ensureReady();
+    const error = new Error('EADDRINUSE');
+    const [, errorHandler] = socket.once.mock.calls[0];
+    (errorHandler as Function)(error);
+
+    await expect(promise).rejects.toBe(error);
+  });
+
+  it('sends messages as JSON', async () => {
+    jest.spyOn(network, 'ensureReady').mockResolvedValue();
+    socket.send.mockImplementation(
+      (_1, _2, _3, cb?: (err: null | Error, bytesSent: number) => void) => {
+        cb?.(null, 17);
+      }
+    );
+
+    expect(await network.send({ cmd: 'whois' }, '224.0.0.50', 4321)).toBe(17);
+    expect(socket.send).toBeCalledWith(
+      Buffer.from('{"cmd":"whois"}'),
+      4321,
+      '224.0.0.50',
+      expect.any(Function)
+    );
+  });
+
+  it('passes messages to the handlers', () => {
+    const handler = jest.fn();
+    const removedHandler = jest.fn();
+    network.addMessageHandler(handler);
+    network.addMessageHandler(removedHandler)();
+    network.ensureReady();
+
+    const buffer = Buffer.from('{}');
+    const remoteInfo = { address: '192.168.1.10', port: 9898 };
+    findHandler(socket.on, 'message')(buffer, remoteInfo);
+
+    expect(handler).toBeCalledWith(buffer, remoteInfo);
+    expect(removedHandler).not.toBeCalled();
+  });
+
+  it('closes the socket once and notifies close handlers', async () => {
+    jest.spyOn(network, 'ensureReady').mockResolvedValue();
+    socket.close.mockImplementation((cb?: () => void) => cb?.());
+    const handler = jest.fn();
+    network.addCloseHandler(handler);
+
+    await Promise.all([network.close(), network.close()]);
+
+    expect(socket.close).toBeCalledTimes(1);
+    expect(handler).toBeCalledTimes(1);
+  });
+});
@@ -0,0 +1,344 @@
+import { RemoteInfo } from 'dgram';
+import { EventEmitter } from 'events';
+import {
+  AqaraGatewayError,
+  MiIOAbortError,
+  MiIOClientClosedError,
+  MiIOTimeoutError,
+} from '../miio/errors';
+import { Logger } from '../miio/logger';
+import { Unsubscriber } from '../miio/network';
+import { remove } from '../utils/array_utils';
+import { throwIfAborted } from '../utils/promise_utils';
+import {
+  AQARA_DISCOVERY_PORT,
+  AQARA_MULTICAST_ADDRESS,
+  AQARA_PORT,
+  AqaraMessage,
+  decodeAqaraData,
+  getAqaraWriteKey,
+} from './messages';
+import { AqaraNetwork } from './network';
+
+const DEFAULT_TIMEOUT = 5000;
+
+export interface AqaraClientConfig {
+  // Found by `discover` when missing.
+  address?: string;
+  port?: number;
+  // Developer password of the gateway, needed by `write`. It is also replied
+  // by `get_lumi_dpf_aes_key` over miIO, see `GatewayDevice`.
+  password?: string;
+  requestTimeout?: number;
+}
+
+export interface AqaraRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface AqaraGatewayInfo {
+  sid: string;
+  address: string;
+  port: number;
+  // e.g. "1.1.2".
+  protoVersion?: string;
+}
+
+// State of a device, as read, written or pushed by the gateway.
+export interface AqaraDeviceState {
+  sid: string;
+  model?: string;
+  // Values are mostly strings, e.g. { temperature: "2450" }.
+  data: Record<string, unknown>;
+}
+
+export interface AqaraClientEvents {
+  // Every message from the gateway, including replies.
+  message: (message: AqaraMessage, remoteInfo: RemoteInfo) => void;
+  // Pushed as soon as the state of a device changes.
+  report: (state: AqaraDeviceState) => void;
+  // Sent periodically by the gateway and its devices.
+  heartbeat: (state: AqaraDeviceState) => void;
+}
+
+interface PendingRequest {
+  // Command of the expected reply.
+  cmd: string;
+  sid?: string;
+  resolve: (message: AqaraMessage) => void;
+  reject: (err: Error) => void;
+}
+
+export interface AqaraClient {
+  on<E extends keyof AqaraClientEvents>(
+    event: E,
+    listener: AqaraClientEvents[E]
+  ): this;
+  once<E extends keyof AqaraClientEvents>(
+    event: E,
+    listener: AqaraClientEvents[E]
+  ): this;
+  off<E extends keyof AqaraClientEvents>(
+    event: E,
+    listener: AqaraClientEvents[E]
+  ): this;
+  emit<E extends keyof AqaraClientEvents>(
+    event: E,
+    ...args: Parameters<AqaraClientEvents[E]>
+  ): boolean;
+}
+
+function toDeviceState(message: AqaraMessage): AqaraDeviceState {
+  return {
+    sid: message.sid ?? '',
+    model: message.model,
+    data: decodeAqaraData(message.data),
+  };
+}
+
+/**
+ * Client of the JSON LAN protocol ("developer mode") of Aqara and Lumi
+ * gateways. Unlike miIO, devices push their state through `report` events, so
+ * nothing needs to be polled.
+ */
+export class AqaraClient extends EventEmitter {
+  private pendingRequests: PendingRequest[] = [];
+  private token: string | undefined;
+  private closed = false;
+  private unsubscriber: Unsubscriber | undefined;
+
+  constructor(
+    private readonly network: AqaraNetwork,
+    private readonly logger: Logger,
+    private readonly config: AqaraClientConfig = {}
+  ) {
+    super();
+  }
+
+  get address() {
+    return this.config.address;
+  }
+
+  get isClosed() {
+    return this.closed;
+  }
+
+  subscribeToMessages(): Unsubscriber {
+    const unsubscribeMessage = this.network.addMessageHandler(
+      (message, remoteInfo) => {
+        const { address } = this.config;
+        if (address && remoteInfo.address !== address) {
+          // Other gateways multicast their reports as well.
+          return;
+        }
+        this.handleMessage(message, remoteInfo);
+      }
+    );
+    const unsubscribeClose = this.network.addCloseHandler(() => this.close());
+    this.unsubscriber = () => {
+      unsubscribeMessage();
+      unsubscribeClose();
+    };
+    return this.unsubscriber;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.unsubscriber?.();
+    this.unsubscriber = undefined;
+    const { pendingRequests } = this;
+    this.pendingRequests = [];
+    pendingRequests.forEach(({ reject }) =>
+      reject(new MiIOClientClosedError())
+    );
+  }
+
+  handleMessage(buffer: Buffer, remoteInfo: RemoteInfo) {
+    let message: AqaraMessage;
+    try {
+      message = JSON.parse(buffer.toString());
+    } catch (err) {
+      this.logger.warn('Dropping message with malformed payload.', err);
+      return;
+    }
+    if (message.token) {
+      this.token = message.token;
+    }
+    this.emit('message', message, remoteInfo);
+    if (message.cmd === 'report' || message.cmd === 'heartbeat') {
+      let state: AqaraDeviceState;
+      try {
+        state = toDeviceState(message);
+      } catch (err) {
+        this.logger.warn('Dropping message with malformed data.', err);
+        return;
+      }
+      this.emit(message.cmd, state);
+      return;
+    }
+    if (!this.resolvePendingRequest(message)) {
+      this.logger.debug('Dropping unmatched message:', message.cmd);
+    }
+  }
+
+  /**
+   * Multicasts `whois` and resolves the first gateway replying. Its address
+   * is used for further requests unless one was configured.
+   */
+  async discover(options?: AqaraRequestOptions): Promise<AqaraGatewayInfo> {
+    const message = await this.request(
+      { cmd: 'whois' },
+      'iam',
+      AQARA_MULTICAST_ADDRESS,
+      AQARA_DISCOVERY_PORT,
+      options
+    );
+    const gateway: AqaraGatewayInfo = {
+      sid: message.sid ?? '',
+      address: String(message.ip),
+      port: Number(message.port ?? AQARA_PORT),
+      protoVersion: message.proto_version as string | undefined,
+    };
+    if (!this.config.address) {
+      this.config.address = gateway.address;
+      this.config.port = gateway.port;
+    }
+    return gateway;
+  }
+
+  // Lists the sids of the devices paired with the gateway.
+  async getIdList(options?: AqaraRequestOptions): Promise<string[]> {
+    const message = await this.requestGateway({ cmd: 'get_id_list' }, options);
+    return decodeAqaraData<string[]>(message.data);
+  }
+
+  async read(
+    sid: string,
+    options?: AqaraRequestOptions
+  ): Promise<AqaraDeviceState> {
+    const message = await this.requestGateway({ cmd: 'read', sid }, options);
+    return toDeviceState(message);
+  }
+
+  /**
+   * Writes the values, e.g. { status: "on" } to a plug. The gateway token is
+   * fetched first when no heartbeat has carried it yet.
+   */
+  async write(
+    sid: string,
+    data: Record<string, unknown>,
+    options?: AqaraRequestOptions
+  ): Promise<AqaraDeviceState> {
+    const { password } = this.config;
+    if (!password) {
+      throw new AqaraGatewayError('The gateway password is required to write.');
+    }
+    if (!this.token) {
+      await this.getIdList(options);
+    }
+    const key = getAqaraWriteKey(password, this.token ?? '');
+    const message = await this.requestGateway(
+      { cmd: 'write', sid, data: JSON.stringify({ ...data, key }) },
+      options
+    );
+    return toDeviceState(message);
+  }
+
+  private requestGateway(message: AqaraMessage, options?: AqaraRequestOptions) {
+    const { address, port = AQARA_PORT } = this.config;
+    if (!address) {
+      throw new AqaraGatewayError(
+        'The gateway address is unknown, call `discover` first.'
+      );
+    }
+    return this.request(message, `${message.cmd}_ack`, address, port, options);
+  }
+
+  private async request(
+    message: AqaraMessage,
+    replyCmd: string,
+    address: string,
+    port: number,
+    { signal }: AqaraRequestOptions = {}
+  ): Promise<AqaraMessage> {
+    this.throwIfClosed();
+    throwIfAborted(signal);
+    const requestTimeout = this.config.requestTimeout ?? DEFAULT_TIMEOUT;
+    let request!: PendingRequest;
+    const promise = new Promise<AqaraMessage>((resolve, reject) => {
+      request = {
+        cmd: replyCmd,
+        sid: message.sid,
+        resolve: reply => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', abortHandler);
+          resolve(reply);
+        },
+        reject: err => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', abortHandler);
+          reject(err);
+        },
+      };
+      const abortHandler = () => {
+        this.removePendingRequest(request);
+        request.reject(new MiIOAbortError());
+      };
+      const timeout = setTimeout(() => {
+        this.removePendingRequest(request);
+        request.reject(new MiIOTimeoutError(requestTimeout));
+      }, requestTimeout);
+      signal?.addEventListener('abort', abortHandler, { once: true });
+      this.pendingRequests.push(request);
+    });
+    this.logger.debug('Sending message:', JSON.stringify(message));
+    try {
+      await this.network.send(message, address, port);
+    } catch (err) {
+      // Rejecting through the request clears its timer, so nothing fires
+      // after the caller got the error.
+      this.removePendingRequest(request);
+      request.reject(err as Error);
+    }
+    return promise;
+  }
+
+  private resolvePendingRequest(message: AqaraMessage) {
+    const request = this.pendingRequests.find(
+      ({ cmd, sid }) =>
+        cmd === message.cmd && (sid == null || sid === message.sid)
+    );
+    if (!request) {
+      return false;
+    }
+    this.removePendingRequest(request);
+    let error: unknown;
+    try {
+      ({ error } = decodeAqaraData(message.data));
+    } catch (err) {
+      // Malformed data is reported when the reply is decoded.
+    }
+    if (typeof error === 'string') {
+      request.reject(new AqaraGatewayError(error));
+    } else {
+      request.resolve(message);
+    }
+    return true;
+  }
+
+  private removePendingRequest(request: PendingRequest) {
+    const index = this.pendingRequests.indexOf(request);
+    if (index >= 0) {
+      this.pendingRequests = remove(this.pendingRequests, index);
+    }
+  }
+
+  private throwIfClosed() {
+    if (this.closed) {
+      throw new MiIOClientClosedError();
+    }
+  }
+}
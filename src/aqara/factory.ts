@@ -0,0 +1,35 @@
+import { createSocket } from 'dgram';
+import { ConsoleLogger, Logger } from '../miio/logger';
+import { AqaraClient, AqaraClientConfig } from './client';
+import { AqaraNetwork } from './network';
+
+export interface CreateAqaraClientOptions extends AqaraClientConfig {
+  logger?: Logger;
+}
+
+// Closing the client closes its socket as well.
+export type StandaloneAqaraClient = AqaraClient;
+
+/**
+ * Creates a client with its own socket, listening to the reports of the
+ * gateway. Call `discover` first when the address is unknown.
+ */
+export function createAqaraClient({
+  logger = new ConsoleLogger(),
+  ...config
+}: CreateAqaraClientOptions = {}): StandaloneAqaraClient {
+  // Several clients may listen to the multicast reports at the same time.
+  const network = new AqaraNetwork(
+    createSocket({ type: 'udp4', reuseAddr: true }),
+    logger
+  );
+  const client = new AqaraClient(network, logger, config);
+  client.subscribeToMessages();
+  // Pending requests are rejected before the socket goes away.
+  const closeClient = client.close.bind(client);
+  client.close = async () => {
+    await closeClient();
+    await network.close();
+  };
+  return client;
+}
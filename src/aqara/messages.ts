@@ -0,0 +1,57 @@
+import { createCipheriv } from 'crypto';
+
+// Gateways answer `whois` on the discovery port, everything else goes through
+// the command port, including reports multicast by the gateway.
+export const AQARA_MULTICAST_ADDRESS = '224.0.0.50';
+export const AQARA_DISCOVERY_PORT = 4321;
+export const AQARA_PORT = 9898;
+
+// Fixed IV of the write key, see `getAqaraWriteKey`.
+const WRITE_KEY_IV = Buffer.from('17996d093d28ddb3ba695a2e6f58562e', 'hex');
+
+/**
+ * JSON message of the LAN developer protocol (version 1.x), in both
+ * directions.
+ */
+export interface AqaraMessage {
+  // e.g. "read", "read_ack", "report" or "heartbeat".
+  cmd: string;
+  sid?: string;
+  // Short model name, e.g. "gateway", "sensor_ht" or "magnet".
+  model?: string;
+  short_id?: number | string;
+  // Sent by the gateway in heartbeats and `get_id_list_ack`, changes every
+  // few seconds.
+  token?: string;
+  // JSON encoded object or array, see `decodeAqaraData`.
+  data?: string | Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Decodes the `data` of a message, which is a JSON string on most firmware
+ * and a plain object on some.
+ */
+export function decodeAqaraData<T = Record<string, unknown>>(
+  data: AqaraMessage['data']
+): T {
+  if (typeof data !== 'string') {
+    return (data ?? {}) as T;
+  }
+  return JSON.parse(data);
+}
+
+/**
+ * Signs writes: the current gateway token, encrypted by AES-128-CBC with the
+ * password set in the developer options of the Mi Home app, hex encoded.
+ */
+export function getAqaraWriteKey(password: string, token: string) {
+  const cipher = createCipheriv(
+    'aes-128-cbc',
+    Buffer.from(password),
+    WRITE_KEY_IV
+  );
+  // The token is exactly one block long.
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(token), cipher.final()]).toString('hex');
+}
@@ -0,0 +1,35 @@
+import { Socket } from 'dgram';
+import { Logger } from '../miio/logger';
+import { UdpNetwork } from '../miio/udp_network';
+import { AQARA_MULTICAST_ADDRESS, AQARA_PORT, AqaraMessage } from './messages';
+
+/**
+ * Socket of the Aqara LAN protocol. It listens on the command port and joins
+ * the multicast group, so reports pushed by gateways arrive here as well as
+ * replies. The socket should be created with `reuseAddr` to share the port.
+ */
+export class AqaraNetwork extends UdpNetwork {
+  constructor(
+    socket: Socket,
+    logger: Logger,
+    private readonly port = AQARA_PORT
+  ) {
+    super(socket, logger);
+  }
+
+  protected bind() {
+    this.socket.bind(this.port);
+  }
+
+  protected onListening() {
+    try {
+      this.socket.addMembership(AQARA_MULTICAST_ADDRESS);
+    } catch (err) {
+      this.logger.warn('Failed to join the multicast group.', err);
+    }
+  }
+
+  send(message: AqaraMessage, address: string, port: number): Promise<number> {
+    return this.sendBuffer(Buffer.from(JSON.stringify(message)), address, port);
+  }
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { generateDeviceClass, GenerateOptions } from '../codegen/miot_codegen';
+import { MiotSpec } from '../miio/miot_spec';
+
+const USAGE =
+  'Usage: miot-codegen <spec.json> [--out <file.ts>] [--class-name <name>] [--import-path <module>]';
+
+interface CodegenArgs extends GenerateOptions {
+  specPath: string;
+  // Prints to stdout when missing.
+  outPath?: string;
+}
+
+function parseArgs(argv: string[]): CodegenArgs | undefined {
+  const positionals: string[] = [];
+  const options: Omit<CodegenArgs, 'specPath'> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    switch (arg) {
+    case '--out':
+    case '-o':
+      options.outPath = value;
+      i++;
+      break;
+    case '--class-name':
+      options.className = value;
+      i++;
+      break;
+    case '--import-path':
+      options.importPath = value;
+      i++;
+      break;
+    default:
+      positionals.push(arg);
+    }
+  }
+  if (positionals.length !== 1) {
+    return undefined;
+  }
+  return { ...options, specPath: positionals[0] };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  const { specPath, outPath, ...options } = args;
+  const source = generateDeviceClass(await MiotSpec.load(specPath), options);
+  if (outPath) {
+    await fs.writeFile(outPath, source, 'utf8');
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as ts from 'typescript';
+import { MiotSpec } from '../../miio/miot_spec';
+import {
+  generateDeviceClass,
+  toCamelCase,
+  toPascalCase,
+} from '../miot_codegen';
+
+const SPEC_PATH = join(
+  __dirname,
+  '../../miio/tests/fixtures/air_purifier.json'
+);
+
+describe('miot_codegen', () => {
+  let spec: MiotSpec;
+
+  beforeEach(async () => {
+    spec = await MiotSpec.load(SPEC_PATH);
+  });
+
+  it('converts names to identifiers', () => {
+    expect(toPascalCase('pm2.5-density')).toBe('Pm25Density');
+    expect(toCamelCase('filter-life-level')).toBe('filterLifeLevel');
+  });
+
+  it('generates enums of value lists', () => {
+    const source = generateDeviceClass(spec);
+    expect(source).toContain(
+      [
+        'export enum ZhimiMa4AirPurifierMode {',
+        '  Auto = 0,',
+        '  Sleep = 1,',
+        '  Favorite = 2,',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('generates getters, setters and actions', () => {
+    const source = generateDeviceClass(spec, {
+      className: 'AirPurifier',
+      importPath: '../index',
+    });
+    expect(source).toContain('from \'../index\';');
+    expect(source).toContain('export class AirPurifier extends MiotDevice {');
+    expect(source).toContain(
+      'getMode(options?: SendOptions): Promise<AirPurifierMode> {'
+    );
+    expect(source).toContain('return this.setProperty(2, 11, value, options);');
+    expect(source).toContain('Range: 1 to 3, step 1.');
+    expect(source).toContain('return this.getProperty<number>(3, 4, options);');
+    expect(source).toContain('async toggle(options?: SendOptions)');
+    // Read-only properties have no setter.
+    expect(source).toContain('getFilterLifeLevel(');
+    expect(source).not.toContain('setFilterLifeLevel(');
+  });
+
+  it('prefixes names shared by several services', () => {
+    const service = spec.document.services[1];
+    const source = generateDeviceClass(
+      new MiotSpec({
+        ...spec.document,
+        services: [service, { ...service, iid: 3 }],
+      })
+    );
+    expect(source).toContain('getAirPurifierOn(');
+    expect(source).toContain('getAirPurifier3On(');
+    expect(source).toContain('airPurifier3Toggle(');
+  });
+
+  it('renames accessors taken by MiotDevice members', () => {
+    const service = spec.document.services[1];
+    const [property] = service.properties ?? [];
+    const source = generateDeviceClass(
+      new MiotSpec({
+        ...spec.document,
+        services: [
+          {
+            ...service,
+            properties: [
+              {
+                ...property,
+                type: 'urn:miot-spec-v2:property:property:00000006:zhimi-ma4:1',
+              },
+            ],
+          },
+        ],
+      })
+    );
+    expect(source).toContain('getPropertyValue(options?: SendOptions)');
+    expect(source).toContain('setPropertyValue(value: boolean');
+    expect(source).not.toContain('getProperty(options');
+    expect(source).not.toContain('setProperty(value');
+  });
+
+  // Type checking the whole library takes a while.
+  it('generates code passing the type check', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'miot-codegen-'));
+    const file = join(dir, 'air_purifier.ts');
+    await fs.writeFile(
+      file,
+      generateDeviceClass(spec, {
+        importPath: join(__dirname, '../../index'),
+      })
+    );
+    const program = ts.createProgram([file], {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES5,
+      module: ts.ModuleKind.CommonJS,
+      esModuleInterop: true,
+    });
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program)
+      .map(diagnostic =>
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      );
+    await fs.unlink(file);
+    await fs.rmdir(dir);
+    expect(diagnostics).toEqual([]);
+  }, 60000);
+});
@@ -0,0 +1,249 @@
+import {
+  getUrnName,
+  MiotSpec,
+  MiotSpecAction,
+  MiotSpecProperty,
+} from '../miio/miot_spec';
+
+export interface GenerateOptions {
+  // Defaults to the model and device type of the spec, e.g.
+  // "ZhimiMa4AirPurifier".
+  className?: string;
+  // Module providing `MiotDevice` and `SendOptions`.
+  importPath?: string;
+}
+
+const DEFAULT_IMPORT_PATH = 'simple-miio';
+const INDENT = '  ';
+// Members of `MiotDevice` which generated methods must not override.
+const RESERVED_NAMES = [
+  'client',
+  'info',
+  'model',
+  'close',
+  'getProperty',
+  'setProperty',
+  'callAction',
+];
+
+// Appends the suffix to names taken by `MiotDevice` members.
+function avoidReservedName(name: string, suffix: string) {
+  return RESERVED_NAMES.indexOf(name) >= 0 ? `${name}${suffix}` : name;
+}
+
+function splitWords(name: string) {
+  return name.split(/[^a-zA-Z0-9]+/).filter(word => word.length > 0);
+}
+
+export function toPascalCase(name: string) {
+  return splitWords(name)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+export function toCamelCase(name: string) {
+  const pascalCase = toPascalCase(name);
+  return pascalCase[0].toLowerCase() + pascalCase.slice(1);
+}
+
+// "air-purifier:mode" -> "mode"
+const getShortName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+const toComment = (text: string) => text.replace(/\*\//g, '* /');
+
+function renderDoc(lines: string[], indent: string) {
+  return [
+    `${indent}/**`,
+    ...lines.map(line => `${indent} * ${toComment(line)}`),
+    `${indent} */`,
+  ];
+}
+
+/**
+ * Picks the short name of every item, falling back to the name including the
+ * service when several services share it.
+ */
+function getUniqueNames(names: string[]) {
+  const counts = new Map<string, number>();
+  names.forEach(name => {
+    const shortName = getShortName(name);
+    counts.set(shortName, (counts.get(shortName) ?? 0) + 1);
+  });
+  const uniqueNames = new Map<string, string>();
+  names.forEach(name => {
+    const shortName = getShortName(name);
+    uniqueNames.set(name, counts.get(shortName) === 1 ? shortName : name);
+  });
+  return uniqueNames;
+}
+
+function getEnumMembers(property: MiotSpecProperty) {
+  const members: string[] = [];
+  return (property.valueList ?? []).map(({ value, description }) => {
+    let member = toPascalCase(description) || `Value${value}`;
+    if (/^[0-9]/.test(member)) {
+      member = `Value${member}`;
+    }
+    if (members.indexOf(member) >= 0) {
+      member = `${member}${value}`;
+    }
+    members.push(member);
+    return { member, value, description };
+  });
+}
+
+function getPropertyDoc({ description, unit, valueRange }: MiotSpecProperty) {
+  const lines = [description];
+  if (unit && unit !== 'none') {
+    lines.push(`Unit: ${unit}.`);
+  }
+  if (valueRange) {
+    const { min, max, step } = valueRange;
+    lines.push(`Range: ${min} to ${max}, step ${step}.`);
+  }
+  return lines;
+}
+
+/**
+ * Generates the source of a `MiotDevice` subclass with typed getters and
+ * setters of every property, enums of value lists and a method per action.
+ */
+export function generateDeviceClass(
+  spec: MiotSpec,
+  { className, importPath = DEFAULT_IMPORT_PATH }: GenerateOptions = {}
+): string {
+  const urnParts = spec.type.split(':');
+  const resolvedClassName =
+    className ?? toPascalCase(`${urnParts[5] ?? ''}-${getUrnName(spec.type)}`);
+  const properties = spec.services.reduce<MiotSpecProperty[]>(
+    (current, service) => [...current, ...service.properties],
+    []
+  );
+  const actions = spec.services.reduce<MiotSpecAction[]>(
+    (current, service) => [...current, ...service.actions],
+    []
+  );
+  const propertyNames = getUniqueNames(properties.map(({ name }) => name));
+  const actionNames = getUniqueNames(actions.map(({ name }) => name));
+
+  const enumNames = new Map<string, string>();
+  const enums: string[][] = [];
+  properties
+    .filter(({ valueList }) => valueList && valueList.length > 0)
+    .forEach(property => {
+      const enumName = `${resolvedClassName}${toPascalCase(
+        propertyNames.get(property.name) as string
+      )}`;
+      enumNames.set(property.name, enumName);
+      enums.push([
+        ...renderDoc([property.description], ''),
+        `export enum ${enumName} {`,
+        ...getEnumMembers(property).map(
+          ({ member, value }) => `${INDENT}${member} = ${value},`
+        ),
+        '}',
+      ]);
+    });
+
+  const getType = (property: MiotSpecProperty) => {
+    const enumName = enumNames.get(property.name);
+    if (enumName) {
+      return enumName;
+    }
+    switch (property.format) {
+    case 'bool':
+      return 'boolean';
+    case 'string':
+    case 'hex':
+      return 'string';
+    default:
+      return 'number';
+    }
+  };
+
+  const methods: string[][] = [];
+  properties.forEach(property => {
+    const { siid, piid, access } = property;
+    const methodName = toPascalCase(propertyNames.get(property.name) as string);
+    // e.g. `getProperty` for a property named "property".
+    const getterName = avoidReservedName(`get${methodName}`, 'Value');
+    const setterName = avoidReservedName(`set${methodName}`, 'Value');
+    const type = getType(property);
+    const doc = renderDoc(getPropertyDoc(property), INDENT);
+    if (access.indexOf('read') >= 0) {
+      methods.push([
+        ...doc,
+        `${INDENT}${getterName}(options?: SendOptions): Promise<${type}> {`,
+        `${INDENT}${INDENT}return this.getProperty<${type}>(${siid}, ${piid}, options);`,
+        `${INDENT}}`,
+      ]);
+    }
+    if (access.indexOf('write') >= 0) {
+      methods.push([
+        ...doc,
+        `${INDENT}${setterName}(value: ${type}, options?: SendOptions): Promise<void> {`,
+        `${INDENT}${INDENT}return this.setProperty(${siid}, ${piid}, value, options);`,
+        `${INDENT}}`,
+      ]);
+    }
+  });
+  actions.forEach(action => {
+    const { siid, aiid, description } = action;
+    const methodName = avoidReservedName(
+      toCamelCase(actionNames.get(action.name) as string),
+      'Action'
+    );
+    const argNames: string[] = [];
+    const args = action.in.map(property => {
+      let argName = toCamelCase(getShortName(property.name));
+      if (argNames.indexOf(argName) >= 0) {
+        argName = `${argName}${property.piid}`;
+      }
+      argNames.push(argName);
+      return { argName, type: getType(property) };
+    });
+    const params = [
+      ...args.map(({ argName, type }) => `${argName}: ${type}`),
+      'options?: SendOptions',
+    ].join(', ');
+    const argList = `[${argNames.join(', ')}]`;
+    const doc = renderDoc([description], INDENT);
+    if (action.out.length === 0) {
+      methods.push([
+        ...doc,
+        `${INDENT}async ${methodName}(${params}): Promise<void> {`,
+        `${INDENT}${INDENT}await this.callAction(${siid}, ${aiid}, ${argList}, options);`,
+        `${INDENT}}`,
+      ]);
+    } else {
+      const outType = `[${action.out.map(getType).join(', ')}]`;
+      methods.push([
+        ...doc,
+        `${INDENT}${methodName}(${params}): Promise<${outType}> {`,
+        `${INDENT}${INDENT}return this.callAction<${outType}>(${siid}, ${aiid}, ${argList}, options);`,
+        `${INDENT}}`,
+      ]);
+    }
+  });
+
+  const lines = [
+    `// Generated by miot-codegen from ${spec.type}.`,
+    '// Do not edit by hand, regenerate from the spec instead.',
+    `import { MiotDevice, SendOptions } from '${importPath}';`,
+    '',
+    ...enums.reduce<string[]>(
+      (current, block) => [...current, ...block, ''],
+      []
+    ),
+    ...renderDoc([spec.description], ''),
+    `export class ${resolvedClassName} extends MiotDevice {`,
+    `${INDENT}static readonly TYPE = '${spec.type}';`,
+    ...methods.reduce<string[]>(
+      (current, block) => [...current, '', ...block],
+      []
+    ),
+    '}',
+    '',
+  ];
+  return lines.join('\n');
+}
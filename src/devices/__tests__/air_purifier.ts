@@ -0,0 +1,136 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../../miio/client';
+import { DeviceInfo } from '../../miio/device_info';
+import { MiIOUnsupportedError, MiotPropertyError } from '../../miio/errors';
+import {
+  AirPurifierDevice,
+  AirPurifierMode,
+  LedBrightness,
+} from '../air_purifier';
+
+describe('AirPurifierDevice', () => {
+  let client: jest.Mocked<MiIOClient>;
+
+  beforeEach(() => {
+    client = createMockInstance(MiIOClient);
+  });
+
+  function createDevice(model: string) {
+    return new AirPurifierDevice(client, { model } as DeviceInfo);
+  }
+
+  describe('legacy models', () => {
+    it('reads the status with get_prop', async () => {
+      const device = createDevice('zhimi.airpurifier.m1');
+      client.send.mockResolvedValue({
+        id: 1,
+        result: ['on', 'favorite', 10, 12, 45, 235, 87, 'off', 1, ''],
+        exec_time: 0,
+      });
+
+      expect(device.protocol).toBe('legacy');
+      expect(await device.getStatus()).toEqual({
+        power: true,
+        mode: AirPurifierMode.FAVORITE,
+        fanLevel: 10,
+        aqi: 12,
+        humidity: 45,
+        temperature: 23.5,
+        filterLife: 87,
+        childLock: false,
+        ledBrightness: LedBrightness.DIM,
+      });
+      expect(client.send).toBeCalledWith(
+        'get_prop',
+        [
+          'power',
+          'mode',
+          'favorite_level',
+          'aqi',
+          'humidity',
+          'temp_dec',
+          'filter1_life',
+          'child_lock',
+          'led_b',
+          'buzzer',
+        ],
+        undefined
+      );
+    });
+
+    it('writes properties with their own methods', async () => {
+      const device = createDevice('zhimi.airpurifier.v6');
+      client.send.mockResolvedValue({ id: 1, result: ['ok'], exec_time: 0 });
+
+      await device.setPower(false);
+      await device.setMode(AirPurifierMode.SILENT);
+      await device.setFanLevel(16);
+      await device.setChildLock(true);
+      expect(
+        client.send.mock.calls.map(([method, params]) => [method, params])
+      ).toEqual([
+        ['set_power', ['off']],
+        ['set_mode', ['silent']],
+        ['set_level_favorite', [16]],
+        ['set_child_lock', ['on']],
+      ]);
+    });
+
+    it('rejects read-only properties', async () => {
+      const device = createDevice('zhimi.airpurifier.v6');
+      await expect(
+        // @ts-expect-error
+        device.writeProperty('aqi', 10)
+      ).rejects.toThrow(MiIOUnsupportedError);
+    });
+  });
+
+  describe('MIoT models', () => {
+    it('reads the status with get_properties', async () => {
+      const device = createDevice('zhimi.airpurifier.mb3');
+      client.getProperties.mockImplementation(async properties =>
+        properties.map(({ siid, piid }) =>
+          siid === 3 && piid === 8
+            ? { siid, piid, code: -4001 }
+            : { siid, piid, code: 0, value: siid === 2 && piid === 5 ? 2 : 1 }
+        )
+      );
+
+      expect(device.protocol).toBe('miot');
+      const status = await device.getStatus();
+      expect(status).toMatchObject({
+        power: false,
+        fanLevel: 1,
+        mode: AirPurifierMode.FAVORITE,
+        aqi: 1,
+        ledBrightness: LedBrightness.DIM,
+      });
+      expect(status).not.toHaveProperty('temperature');
+      expect(client.getProperties.mock.calls[0][0]).toContainEqual({
+        siid: 2,
+        piid: 5,
+      });
+    });
+
+    it('writes properties with set_properties', async () => {
+      const device = createDevice('zhimi.airpurifier.mb3');
+      client.setProperties.mockResolvedValue([{ siid: 2, piid: 5, code: 0 }]);
+
+      await device.setMode(AirPurifierMode.SILENT);
+      expect(client.setProperties).toBeCalledWith(
+        [{ siid: 2, piid: 5, value: 1 }],
+        undefined
+      );
+    });
+
+    it('rejects when the device refuses the value', async () => {
+      const device = createDevice('zhimi.airpurifier.mb3');
+      const error = new MiotPropertyError(-4005, 2, 4);
+      client.setProperties.mockResolvedValue([
+        { siid: 2, piid: 4, code: -4005, error },
+      ]);
+
+      await expect(device.setFanLevel(9)).rejects.toBe(error);
+    });
+  });
+});
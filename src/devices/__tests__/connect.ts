@@ -0,0 +1,64 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../../miio/client';
+import { MiIODevice } from '../../miio/device';
+import { DeviceInfo } from '../../miio/device_info';
+import { MiIOTimeoutError } from '../../miio/errors';
+import { createMiIOClient } from '../../miio/factory';
+import { connect } from '../connect';
+import { DeviceRegistry } from '../registry';
+
+jest.mock('../../miio/factory');
+
+class PlugDevice extends MiIODevice {}
+
+describe('connect', () => {
+  const TOKEN = '00112233445566778899aabbccddeeff';
+  let client: jest.Mocked<MiIOClient>;
+  let registry: DeviceRegistry;
+
+  beforeEach(() => {
+    client = createMockInstance(MiIOClient);
+    (createMiIOClient as jest.Mock).mockReturnValue(client);
+    registry = new DeviceRegistry().register('chuangmi.plug.*', PlugDevice);
+  });
+
+  it('wraps the device with the class of its model', async () => {
+    const info = { model: 'chuangmi.plug.v3' } as DeviceInfo;
+    client.info.mockResolvedValue(info);
+
+    const device = await connect({
+      address: '10.0.0.2',
+      token: TOKEN,
+      registry,
+    });
+    expect(createMiIOClient).toBeCalledWith({
+      address: '10.0.0.2',
+      token: TOKEN,
+    });
+    expect(device).toBeInstanceOf(PlugDevice);
+    expect(device.client).toBe(client);
+    expect(device.model).toBe('chuangmi.plug.v3');
+  });
+
+  it('falls back to the generic device', async () => {
+    client.info.mockResolvedValue({
+      model: 'yeelink.light.lamp1',
+    } as DeviceInfo);
+
+    const device = await connect({
+      address: '10.0.0.2',
+      token: TOKEN,
+      registry,
+    });
+    expect(device.constructor).toBe(MiIODevice);
+  });
+
+  it('closes the client when the model cannot be read', async () => {
+    client.info.mockRejectedValue(new MiIOTimeoutError(1000));
+
+    await expect(
+      connect({ address: '10.0.0.2', token: TOKEN, registry })
+    ).rejects.toThrow(MiIOTimeoutError);
+    expect(client.close).toBeCalled();
+  });
+});
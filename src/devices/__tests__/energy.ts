@@ -0,0 +1,81 @@
+import { MiIOAbortError } from '../../miio/errors';
+import { sampleEnergy, toEnergyMeasurement } from '../energy';
+
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('toEnergyMeasurement', () => {
+  it('integrates samples with the trapezoidal rule', () => {
+    const measurement = toEnergyMeasurement([
+      { time: new Date(0), power: 1000 },
+      { time: new Date(1800000), power: 2000 },
+      { time: new Date(3600000), power: 2000 },
+    ]);
+    expect(measurement.energy).toBeCloseTo(1.75);
+    expect(measurement.averagePower).toBeCloseTo(1750);
+    expect(measurement.duration).toBe(3600000);
+  });
+
+  it('handles a single sample', () => {
+    expect(toEnergyMeasurement([{ time: new Date(0), power: 5 }])).toEqual({
+      samples: [{ time: new Date(0), power: 5 }],
+      energy: 0,
+      averagePower: 5,
+      duration: 0,
+    });
+  });
+});
+
+describe('sampleEnergy', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('samples the power until the duration passed', async () => {
+    const readPower = jest
+      .fn()
+      .mockResolvedValueOnce(100)
+      .mockResolvedValueOnce(300)
+      .mockResolvedValueOnce(300);
+    const onSample = jest.fn();
+    const promise = sampleEnergy(readPower, {
+      duration: 2000,
+      interval: 1000,
+      onSample,
+    });
+    for (let i = 0; i < 2; i++) {
+      await flushPromises();
+      jest.advanceTimersByTime(1000);
+    }
+
+    const measurement = await promise;
+    expect(readPower).toBeCalledTimes(3);
+    expect(onSample).toBeCalledTimes(3);
+    expect(measurement.samples.map(({ time }) => time.getTime())).toEqual([
+      0,
+      1000,
+      2000,
+    ]);
+    // 200 W for 1 s and 300 W for 1 s.
+    expect(measurement.energy).toBeCloseTo(500 / 3600 / 1000);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const promise = sampleEnergy(jest.fn().mockResolvedValue(1), {
+      duration: 10000,
+      signal: controller.signal,
+    });
+    await flushPromises();
+    controller.abort();
+    await expect(promise).rejects.toThrow(MiIOAbortError);
+  });
+});
@@ -0,0 +1,155 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../../miio/client';
+import {
+  DoorSensor,
+  GatewayChild,
+  GatewayChildType,
+  GatewayDevice,
+  MotionSensor,
+  TemperatureHumiditySensor,
+} from '../gateway';
+
+describe('GatewayDevice', () => {
+  let client: jest.Mocked<MiIOClient>;
+  let gateway: GatewayDevice;
+
+  beforeEach(() => {
+    client = createMockInstance(MiIOClient);
+    gateway = new GatewayDevice(client);
+  });
+
+  function mockSendResult(result: unknown) {
+    client.send.mockResolvedValueOnce({ id: 1, result, exec_time: 0 });
+  }
+
+  it('lists the children by type', async () => {
+    mockSendResult([
+      'lumi.158d0001',
+      10,
+      1,
+      0,
+      0,
+      'lumi.158d0002',
+      3,
+      0,
+      0,
+      0,
+      'lumi.158d0003',
+      2,
+      1,
+      0,
+      0,
+      'lumi.158d0004',
+      8,
+      1,
+      0,
+      0,
+    ]);
+
+    const children = await gateway.getChildren();
+
+    expect(client.send).toBeCalledWith(
+      'get_device_prop',
+      ['lumi.0', 'device_list'],
+      undefined
+    );
+    expect(children.map(child => child.sid)).toEqual([
+      'lumi.158d0001',
+      'lumi.158d0002',
+      'lumi.158d0003',
+      'lumi.158d0004',
+    ]);
+    expect(children[0]).toBeInstanceOf(TemperatureHumiditySensor);
+    expect(children[1]).toBeInstanceOf(DoorSensor);
+    expect(children[1].isOnline).toBe(false);
+    expect(children[2]).toBeInstanceOf(MotionSensor);
+    expect(children[3].constructor).toBe(GatewayChild);
+    expect(children[3].type).toBe(GatewayChildType.CUBE);
+  });
+
+  it('reads the properties of a child', async () => {
+    mockSendResult([[2450, 5300]]);
+
+    expect(
+      await gateway.readChildProperties('lumi.158d0001', [
+        'temperature',
+        'humidity',
+      ])
+    ).toEqual({ temperature: 2450, humidity: 5300 });
+    expect(client.send).toBeCalledWith(
+      'get_device_prop_exp',
+      [['lumi.158d0001', 'temperature', 'humidity']],
+      undefined
+    );
+  });
+
+  it('reads the developer key', async () => {
+    mockSendResult(['0123456789abcdef']);
+
+    expect(await gateway.getDeveloperKey()).toBe('0123456789abcdef');
+    expect(client.send).toBeCalledWith('get_lumi_dpf_aes_key', [], undefined);
+  });
+
+  describe('children', () => {
+    it('reads temperature and humidity', async () => {
+      const sensor = new TemperatureHumiditySensor(
+        gateway,
+        'lumi.158d0001',
+        GatewayChildType.TEMPERATURE_HUMIDITY_SENSOR
+      );
+      mockSendResult([[2450, 5300]]);
+
+      expect(await sensor.read()).toEqual({
+        temperature: 24.5,
+        humidity: 53,
+        pressure: undefined,
+      });
+    });
+
+    it('reads the pressure of Aqara sensors', async () => {
+      const sensor = new TemperatureHumiditySensor(
+        gateway,
+        'lumi.158d0001',
+        GatewayChildType.AQARA_TEMPERATURE_HUMIDITY_SENSOR
+      );
+      mockSendResult([[-120, 4800, 100650]]);
+
+      expect(await sensor.read()).toEqual({
+        temperature: -1.2,
+        humidity: 48,
+        pressure: 100.65,
+      });
+      expect(client.send).toBeCalledWith(
+        'get_device_prop_exp',
+        [['lumi.158d0001', 'temperature', 'humidity', 'pressure']],
+        undefined
+      );
+    });
+
+    it('reads whether a door is open', async () => {
+      const sensor = new DoorSensor(
+        gateway,
+        'lumi.158d0002',
+        GatewayChildType.DOOR_SENSOR
+      );
+      mockSendResult([['open']]);
+      mockSendResult([['close']]);
+
+      expect(await sensor.isOpen()).toBe(true);
+      expect(await sensor.isOpen()).toBe(false);
+    });
+
+    it('reads the time since the last motion', async () => {
+      const sensor = new MotionSensor(
+        gateway,
+        'lumi.158d0003',
+        GatewayChildType.MOTION_SENSOR
+      );
+      mockSendResult([['motion', 0]]);
+      mockSendResult([['', 120]]);
+
+      expect(await sensor.getIdleTime()).toBe(0);
+      expect(await sensor.getIdleTime()).toBe(120);
+    });
+  });
+});
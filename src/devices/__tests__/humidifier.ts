@@ -0,0 +1,50 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../../miio/client';
+import { DeviceInfo } from '../../miio/device_info';
+import { LedBrightness } from '../air_purifier';
+import { HumidifierDevice, HumidifierMode } from '../humidifier';
+
+describe('HumidifierDevice', () => {
+  let client: jest.Mocked<MiIOClient>;
+
+  beforeEach(() => {
+    client = createMockInstance(MiIOClient);
+  });
+
+  it('decodes legacy properties', async () => {
+    const device = new HumidifierDevice(client, {
+      model: 'zhimi.humidifier.ca1',
+    } as DeviceInfo);
+    client.send.mockResolvedValue({
+      id: 1,
+      result: ['on', 'medium', 60, 42, 215, 60, 'off', 0, 'on'],
+      exec_time: 0,
+    });
+
+    expect(await device.getStatus()).toEqual({
+      power: true,
+      mode: HumidifierMode.MEDIUM,
+      targetHumidity: 60,
+      humidity: 42,
+      temperature: 21.5,
+      waterLevel: 50,
+      childLock: false,
+      ledBrightness: LedBrightness.BRIGHT,
+      buzzer: true,
+    });
+  });
+
+  it('maps MIoT properties', async () => {
+    const device = new HumidifierDevice(client, {
+      model: 'zhimi.humidifier.ca4',
+    } as DeviceInfo);
+    client.setProperties.mockResolvedValue([{ siid: 5, piid: 2, code: 0 }]);
+
+    await device.setLedBrightness(LedBrightness.OFF);
+    await device.setTargetHumidity(55);
+    expect(client.setProperties.mock.calls.map(([values]) => values)).toEqual([
+      [{ siid: 5, piid: 2, value: 0 }],
+      [{ siid: 2, piid: 6, value: 55 }],
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../../miio/client';
+import { DeviceInfo } from '../../miio/device_info';
+import { MiIOUnsupportedError } from '../../miio/errors';
+import { getPlugProtocol, PlugDevice } from '../plug';
+
+describe('PlugDevice', () => {
+  let client: jest.Mocked<MiIOClient>;
+
+  beforeEach(() => {
+    client = createMockInstance(MiIOClient);
+  });
+
+  function createDevice(model: string) {
+    return new PlugDevice(client, { model } as DeviceInfo);
+  }
+
+  function mockSendResult(result: unknown) {
+    client.send.mockResolvedValueOnce({ id: 1, result, exec_time: 0 });
+  }
+
+  describe('legacy models', () => {
+    it('reads the status and the load power', async () => {
+      const device = createDevice('chuangmi.plug.v3');
+      mockSendResult([true, false, 42, 'on']);
+      mockSendResult([1250]);
+
+      expect(await device.getStatus()).toEqual({
+        power: true,
+        usbPower: false,
+        temperature: 42,
+        led: true,
+        loadPower: 12.5,
+      });
+      expect(client.send).toHaveBeenNthCalledWith(
+        1,
+        'get_prop',
+        ['on', 'usb_on', 'temperature', 'wifi_led'],
+        undefined
+      );
+      expect(client.send).toHaveBeenNthCalledWith(
+        2,
+        'get_power',
+        [],
+        undefined
+      );
+    });
+
+    it('reads the load power of power strips', async () => {
+      const device = createDevice('qmi.powerstrip.v1');
+      mockSendResult([35.5]);
+
+      expect(await device.getLoadPower()).toBe(35.5);
+      expect(client.send).toBeCalledWith(
+        'get_prop',
+        ['power_consume_rate'],
+        undefined
+      );
+    });
+
+    it('switches USB power with dedicated methods', async () => {
+      const device = createDevice('chuangmi.plug.v3');
+      mockSendResult(['ok']);
+      mockSendResult(['ok']);
+
+      await device.setUsbPower(true);
+      await device.setUsbPower(false);
+      expect(client.send.mock.calls.map(([method]) => method)).toEqual([
+        'set_usb_on',
+        'set_usb_off',
+      ]);
+    });
+
+    it('rejects reading the load power of plugs without metering', async () => {
+      const device = createDevice('chuangmi.plug.m1');
+      await expect(device.getLoadPower()).rejects.toThrow(MiIOUnsupportedError);
+      expect(client.send).not.toBeCalled();
+    });
+  });
+
+  describe('MIoT models', () => {
+    it('reads power and energy', async () => {
+      const device = createDevice('chuangmi.plug.212a01');
+      client.getProperties.mockResolvedValue([
+        { siid: 2, piid: 1, code: 0, value: true },
+        { siid: 2, piid: 6, code: 0, value: 38 },
+        { siid: 3, piid: 1, code: 0, value: false },
+        { siid: 5, piid: 1, code: 0, value: 12.4 },
+        { siid: 5, piid: 6, code: 0, value: 60 },
+      ]);
+
+      expect(await device.getStatus()).toEqual({
+        power: true,
+        temperature: 38,
+        led: false,
+        energy: 12.4,
+        loadPower: 60,
+      });
+    });
+
+    it('switches every outlet', async () => {
+      const device = new PlugDevice(
+        client,
+        { model: 'test.powerstrip.miot' } as DeviceInfo,
+        'miot',
+        3
+      );
+      client.setProperties.mockResolvedValue([{ siid: 0, piid: 1, code: 0 }]);
+      client.getProperties.mockResolvedValue([
+        { siid: 2, piid: 1, code: 0, value: true },
+        { siid: 3, piid: 1, code: 0, value: false },
+        { siid: 4, piid: 1, code: 0, value: true },
+      ]);
+
+      expect(device.outlets).toBe(3);
+      expect(await device.getOutlets()).toEqual([true, false, true]);
+      await device.setPower(false, 1);
+      await device.setPower(true, 3);
+      expect(
+        client.setProperties.mock.calls.map(([values]) => values)
+      ).toEqual([
+        [{ siid: 2, piid: 1, value: false }],
+        [{ siid: 4, piid: 1, value: true }],
+      ]);
+      await expect(device.setPower(true, 4)).rejects.toThrow(
+        MiIOUnsupportedError
+      );
+    });
+
+    it('ignores the outlet count of legacy models', () => {
+      const device = new PlugDevice(
+        client,
+        { model: 'qmi.powerstrip.v1' } as DeviceInfo,
+        'legacy',
+        3
+      );
+      expect(device.outlets).toBe(1);
+    });
+  });
+
+  it('detects MIoT models by their own keys only', () => {
+    expect(getPlugProtocol('cuco.plug.cp1')).toBe('miot');
+    expect(getPlugProtocol('constructor')).toBe('legacy');
+    expect(getPlugProtocol('toString')).toBe('legacy');
+  });
+});
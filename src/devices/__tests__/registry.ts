@@ -0,0 +1,34 @@
+import { MiIODevice } from '../../miio/device';
+import { DeviceRegistry } from '../registry';
+
+class VacuumDevice extends MiIODevice {}
+class S5VacuumDevice extends MiIODevice {}
+class RoborockDevice extends MiIODevice {}
+
+describe('DeviceRegistry', () => {
+  let registry: DeviceRegistry;
+
+  beforeEach(() => {
+    registry = new DeviceRegistry()
+      .register('roborock.*', RoborockDevice)
+      .register(['roborock.vacuum.*', 'rockrobo.vacuum.*'], VacuumDevice)
+      .register('roborock.vacuum.s5', S5VacuumDevice);
+  });
+
+  it('prefers exact models', () => {
+    expect(registry.resolve('roborock.vacuum.s5')).toBe(S5VacuumDevice);
+  });
+
+  it('prefers the longest prefix', () => {
+    expect(registry.resolve('roborock.vacuum.a15')).toBe(VacuumDevice);
+    expect(registry.resolve('rockrobo.vacuum.v1')).toBe(VacuumDevice);
+    expect(registry.resolve('roborock.sweeper.e2')).toBe(RoborockDevice);
+  });
+
+  it('falls back to the generic class', () => {
+    expect(registry.resolve('zhimi.airpurifier.ma4')).toBe(MiIODevice);
+    expect(new DeviceRegistry(VacuumDevice).resolve('unknown')).toBe(
+      VacuumDevice
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../../miio/client';
+import {
+  RawVacuumStatus,
+  VacuumDevice,
+  VacuumErrorCode,
+  VacuumFanSpeed,
+  VacuumState,
+} from '../vacuum';
+
+const RAW_STATUS: RawVacuumStatus = {
+  msg_ver: 2,
+  msg_seq: 52,
+  state: 8,
+  battery: 100,
+  clean_time: 1620,
+  clean_area: 23815000,
+  error_code: 0,
+  map_present: 1,
+  in_cleaning: 0,
+  in_returning: 0,
+  fan_power: 102,
+  dnd_enabled: 0,
+};
+
+describe('VacuumDevice', () => {
+  let client: jest.Mocked<MiIOClient>;
+  let device: VacuumDevice;
+
+  beforeEach(() => {
+    client = createMockInstance(MiIOClient);
+    client.send.mockResolvedValue({ id: 1, result: ['ok'], exec_time: 0 });
+    device = new VacuumDevice(client);
+  });
+
+  function mockResult(result: unknown) {
+    client.send.mockResolvedValueOnce({ id: 1, result, exec_time: 0 });
+  }
+
+  it('decodes the status', async () => {
+    mockResult([RAW_STATUS]);
+    const status = await device.getStatus();
+    expect(client.send).toBeCalledWith('get_status', [], undefined);
+    expect(status).toMatchObject({
+      state: VacuumState.CHARGING,
+      stateDescription: 'Charging',
+      errorCode: VacuumErrorCode.NONE,
+      errorMessage: 'No error',
+      battery: 100,
+      fanSpeed: VacuumFanSpeed.BALANCED,
+      cleaningTime: 1620,
+      cleanedArea: 23.815,
+      isCleaning: false,
+      isMapPresent: true,
+      isWaterBoxAttached: undefined,
+    });
+  });
+
+  it('describes errors and unknown codes', async () => {
+    mockResult([{ ...RAW_STATUS, state: 12, error_code: 8 }]);
+    expect(await device.getStatus()).toMatchObject({
+      state: VacuumState.ERROR,
+      errorCode: VacuumErrorCode.DEVICE_STUCK,
+      errorMessage: 'Robot is stuck, clear its surroundings',
+    });
+    mockResult([{ ...RAW_STATUS, state: 77, error_code: 99 }]);
+    expect(await device.getStatus()).toMatchObject({
+      stateDescription: 'Unknown state (77)',
+      errorMessage: 'Unknown error (99)',
+    });
+  });
+
+  it('computes remaining life of consumables', async () => {
+    mockResult([
+      {
+        main_brush_work_time: 540000,
+        side_brush_work_time: 720000,
+        filter_work_time: 270000,
+        sensor_dirty_time: 0,
+      },
+    ]);
+    const consumables = await device.getConsumables();
+    expect(consumables.main_brush_work_time).toEqual({
+      workTime: 540000,
+      remainingTime: 540000,
+      remaining: 50,
+    });
+    expect(consumables.side_brush_work_time.remainingTime).toBe(0);
+    expect(consumables.filter_work_time.remaining).toBe(50);
+    expect(consumables.sensor_dirty_time.remaining).toBe(100);
+  });
+
+  it('sends commands', async () => {
+    await device.start();
+    await device.charge();
+    await device.resetConsumable('filter_work_time');
+    await device.setFanSpeed(VacuumFanSpeed.TURBO);
+    await device.cleanSegments([16, 17]);
+    await device.cleanZones([{ x1: 1, y1: 2, x2: 3, y2: 4 }]);
+    await device.goTo(25500, 25500);
+    expect(
+      client.send.mock.calls.map(([method, params]) => [method, params])
+    ).toEqual([
+      ['app_start', []],
+      ['app_charge', []],
+      ['reset_consumable', ['filter_work_time']],
+      ['set_custom_mode', [103]],
+      ['app_segment_clean', [16, 17]],
+      ['app_zoned_clean', [[1, 2, 3, 4, 1]]],
+      ['app_goto_target', [25500, 25500]],
+    ]);
+  });
+
+  it('reads the clean history', async () => {
+    mockResult([3240, 47630000, 2, [1488326400, 1488240000]]);
+    mockResult([[1488326400, 1488328200, 1620, 23815000, 0, 1]]);
+    mockResult([]);
+    const records = await device.getCleanHistory();
+    expect(client.send).toBeCalledWith(
+      'get_clean_record',
+      [1488326400],
+      undefined
+    );
+    expect(client.send).toBeCalledWith(
+      'get_clean_record',
+      [1488240000],
+      undefined
+    );
+    expect(records).toHaveLength(1);
+    expect(records[0].start).toEqual(new Date(1488326400000));
+  });
+
+  it('manages timers', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1488667794112);
+    const id = await device.addTimer({ minute: 0, hour: 9, daysOfWeek: [1] });
+    await device.setTimerEnabled(id, false);
+    await device.deleteTimer(id);
+    now.mockRestore();
+    await device.setDndTimer({ hour: 22, minute: 0 }, { hour: 8, minute: 0 });
+    expect(id).toBe('1488667794112');
+    expect(
+      client.send.mock.calls.map(([method, params]) => [method, params])
+    ).toEqual([
+      ['set_timer', [['1488667794112', ['0 9 * * 1', ['start_clean', '']]]]],
+      ['upd_timer', ['1488667794112', 'off']],
+      ['del_timer', ['1488667794112']],
+      ['set_dnd_timer', [22, 0, 8, 0]],
+    ]);
+  });
+});
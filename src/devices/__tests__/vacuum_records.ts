@@ -0,0 +1,142 @@
+import {
+  parseVacuumCron,
+  toVacuumCleanRecord,
+  toVacuumCleanSummary,
+  toVacuumCron,
+  toVacuumDndTimer,
+  toVacuumTimer,
+} from '../vacuum_records';
+import { VacuumCronFormatError } from '../../miio/errors';
+
+describe('vacuum records', () => {
+  it('decodes clean summaries of both formats', () => {
+    const expected = {
+      totalDuration: 174145,
+      totalArea: 2410.1475,
+      count: 82,
+      recordIds: [1488240000, 1488153600],
+    };
+    expect(
+      toVacuumCleanSummary([174145, 2410147500, 82, [1488240000, 1488153600]])
+    ).toEqual(expected);
+    expect(
+      toVacuumCleanSummary({
+        clean_time: 174145,
+        clean_area: 2410147500,
+        clean_count: 82,
+        records: [1488240000, 1488153600],
+      })
+    ).toEqual(expected);
+  });
+
+  it('decodes clean records of both formats', () => {
+    const expected = {
+      start: new Date('2017-03-01T00:00:00Z'),
+      end: new Date('2017-03-01T00:30:00Z'),
+      duration: 1620,
+      area: 23.815,
+      errorCode: 0,
+      isCompleted: true,
+    };
+    expect(
+      toVacuumCleanRecord([1488326400, 1488328200, 1620, 23815000, 0, 1])
+    ).toEqual(expected);
+    expect(
+      toVacuumCleanRecord({
+        begin: 1488326400,
+        end: 1488328200,
+        duration: 1620,
+        area: 23815000,
+        error: 0,
+        complete: 1,
+      })
+    ).toEqual(expected);
+  });
+
+  it('parses and formats cron schedules', () => {
+    const schedule = parseVacuumCron('30 8 * * 1-3,5');
+    expect(schedule).toEqual({
+      minute: 30,
+      hour: 8,
+      daysOfMonth: undefined,
+      months: undefined,
+      daysOfWeek: [1, 2, 3, 5],
+    });
+    expect(toVacuumCron(schedule)).toBe('30 8 * * 1,2,3,5');
+    expect(toVacuumCron({ minute: 0, hour: 22 })).toBe('0 22 * * *');
+  });
+
+  it('expands steps in cron schedules', () => {
+    const schedule = parseVacuumCron('0 8 */10 2-8/3 1/2');
+    expect(schedule).toEqual({
+      minute: 0,
+      hour: 8,
+      daysOfMonth: [1, 11, 21, 31],
+      months: [2, 5, 8],
+      daysOfWeek: [1, 3, 5],
+    });
+    expect(toVacuumCron(schedule)).toBe('0 8 1,11,21,31 2,5,8 1,3,5');
+    expect(toVacuumCron(parseVacuumCron('0 8 */2 * *'))).toBe(
+      '0 8 1,3,5,7,9,11,13,15,17,19,21,23,25,27,29,31 * *'
+    );
+  });
+
+  it('rejects cron schedules it cannot hold', () => {
+    expect(() => parseVacuumCron('*/30 * * * *')).toThrow(
+      VacuumCronFormatError
+    );
+    expect(() => parseVacuumCron('0 8 * * 1-3-5')).toThrow(
+      VacuumCronFormatError
+    );
+    expect(() => parseVacuumCron('0 8 * * 9')).toThrow(VacuumCronFormatError);
+  });
+
+  it('decodes timers', () => {
+    expect(
+      toVacuumTimer([
+        '1488667794112',
+        'off',
+        ['49 22 * * 6', ['start_clean', '']],
+      ])
+    ).toEqual({
+      id: '1488667794112',
+      enabled: false,
+      cron: '49 22 * * 6',
+      schedule: {
+        minute: 49,
+        hour: 22,
+        daysOfMonth: undefined,
+        months: undefined,
+        daysOfWeek: [6],
+      },
+      action: 'start_clean',
+      params: '',
+    });
+  });
+
+  it('decodes timers without schedule when the cron is not supported', () => {
+    const timer = toVacuumTimer([
+      '1488667794112',
+      'on',
+      ['*/30 * * * *', ['start_clean', '']],
+    ]);
+    expect(timer.cron).toBe('*/30 * * * *');
+    expect(timer.schedule).toBeUndefined();
+  });
+
+  it('decodes DND timers', () => {
+    expect(
+      toVacuumDndTimer({
+        start_hour: 22,
+        start_minute: 0,
+        end_hour: 8,
+        end_minute: 30,
+        enabled: 1,
+      })
+    ).toEqual({
+      enabled: true,
+      start: { hour: 22, minute: 0 },
+      end: { hour: 8, minute: 30 },
+    });
+  });
+});
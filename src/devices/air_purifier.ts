@@ -0,0 +1,181 @@
+import { MiIOClient, SendOptions } from '../miio/client';
+import { DeviceInfo } from '../miio/device_info';
+import {
+  DeviceProfile,
+  DeviceProtocol,
+  identity,
+  ProfileDevice,
+  toBoolean,
+  toNumber,
+  toOnOff,
+} from './profile_device';
+
+declare module '../miio/methods' {
+  interface MiIOMethodMap {
+    set_mode: { params: [string]; result: ['ok'] };
+    set_level_favorite: { params: [number]; result: ['ok'] };
+    set_child_lock: { params: ['on' | 'off']; result: ['ok'] };
+    set_led_b: { params: [number]; result: ['ok'] };
+    set_buzzer: { params: ['on' | 'off']; result: ['ok'] };
+  }
+}
+
+export enum AirPurifierMode {
+  AUTO = 'auto',
+  SILENT = 'silent',
+  FAVORITE = 'favorite',
+  // Fixed fan level, MIoT models only.
+  FAN = 'fan',
+}
+
+// Values of `led_b` on legacy models and of the indicator light on MIoT ones.
+export enum LedBrightness {
+  BRIGHT = 0,
+  DIM = 1,
+  OFF = 2,
+}
+
+export interface AirPurifierStatus {
+  power: boolean;
+  mode: AirPurifierMode;
+  // Favorite level on legacy models, fan level on MIoT ones. The range
+  // depends on the model.
+  fanLevel: number;
+  // PM2.5 density in μg/m³.
+  aqi: number;
+  // In percent.
+  humidity: number;
+  // In °C.
+  temperature: number;
+  // Remaining filter life in percent.
+  filterLife: number;
+  childLock: boolean;
+  ledBrightness: LedBrightness;
+  buzzer: boolean;
+}
+
+export const AIR_PURIFIER_MODELS = ['zhimi.airpurifier.*'];
+
+export const AIR_PURIFIER_MIOT_MODELS = [
+  'zhimi.airpurifier.mb3',
+  'zhimi.airpurifier.va1',
+  'zhimi.airpurifier.vb2',
+];
+
+const MIOT_MODES = [
+  AirPurifierMode.AUTO,
+  AirPurifierMode.SILENT,
+  AirPurifierMode.FAVORITE,
+  AirPurifierMode.FAN,
+];
+
+const LEGACY_PROFILE: DeviceProfile<AirPurifierStatus> = {
+  protocol: 'legacy',
+  properties: {
+    power: {
+      name: 'power',
+      decode: toBoolean,
+      write: value => ['set_power', [toOnOff(value)]],
+    },
+    mode: {
+      name: 'mode',
+      decode: value => value as AirPurifierMode,
+      write: value => ['set_mode', [value]],
+    },
+    fanLevel: {
+      name: 'favorite_level',
+      decode: toNumber,
+      write: value => ['set_level_favorite', [value]],
+    },
+    aqi: { name: 'aqi', decode: toNumber },
+    humidity: { name: 'humidity', decode: toNumber },
+    // In 0.1°C.
+    temperature: { name: 'temp_dec', decode: value => Number(value) / 10 },
+    filterLife: { name: 'filter1_life', decode: toNumber },
+    childLock: {
+      name: 'child_lock',
+      decode: toBoolean,
+      write: value => ['set_child_lock', [toOnOff(value)]],
+    },
+    ledBrightness: {
+      name: 'led_b',
+      decode: toNumber,
+      write: value => ['set_led_b', [value]],
+    },
+    buzzer: {
+      name: 'buzzer',
+      decode: toBoolean,
+      write: value => ['set_buzzer', [toOnOff(value)]],
+    },
+  },
+};
+
+const MIOT_PROFILE: DeviceProfile<AirPurifierStatus> = {
+  protocol: 'miot',
+  properties: {
+    power: { siid: 2, piid: 2, decode: toBoolean, encode: identity },
+    fanLevel: { siid: 2, piid: 4, decode: toNumber, encode: identity },
+    mode: {
+      siid: 2,
+      piid: 5,
+      decode: value => MIOT_MODES[value as number],
+      encode: value => MIOT_MODES.indexOf(value),
+    },
+    aqi: { siid: 3, piid: 6, decode: toNumber },
+    humidity: { siid: 3, piid: 7, decode: toNumber },
+    temperature: { siid: 3, piid: 8, decode: toNumber },
+    filterLife: { siid: 4, piid: 3, decode: toNumber },
+    buzzer: { siid: 5, piid: 1, decode: toBoolean, encode: identity },
+    ledBrightness: { siid: 6, piid: 1, decode: toNumber, encode: identity },
+    childLock: { siid: 7, piid: 1, decode: toBoolean, encode: identity },
+  },
+};
+
+export function getAirPurifierProtocol(model?: string): DeviceProtocol {
+  return model && AIR_PURIFIER_MIOT_MODELS.indexOf(model) >= 0
+    ? 'miot'
+    : 'legacy';
+}
+
+/**
+ * Xiaomi air purifiers, speaking the legacy or the MIoT protocol depending on
+ * the model.
+ */
+export class AirPurifierDevice extends ProfileDevice<AirPurifierStatus> {
+  constructor(
+    client: MiIOClient,
+    info?: DeviceInfo,
+    protocol = getAirPurifierProtocol(info?.model)
+  ) {
+    super(client, info, protocol === 'miot' ? MIOT_PROFILE : LEGACY_PROFILE);
+  }
+
+  // Properties missing on the model are left out.
+  getStatus(options?: SendOptions): Promise<Partial<AirPurifierStatus>> {
+    return this.readProperties(options);
+  }
+
+  setPower(power: boolean, options?: SendOptions) {
+    return this.writeProperty('power', power, options);
+  }
+
+  setMode(mode: AirPurifierMode, options?: SendOptions) {
+    return this.writeProperty('mode', mode, options);
+  }
+
+  setFanLevel(level: number, options?: SendOptions) {
+    return this.writeProperty('fanLevel', level, options);
+  }
+
+  setChildLock(enabled: boolean, options?: SendOptions) {
+    return this.writeProperty('childLock', enabled, options);
+  }
+
+  setLedBrightness(brightness: LedBrightness, options?: SendOptions) {
+    return this.writeProperty('ledBrightness', brightness, options);
+  }
+
+  setBuzzer(enabled: boolean, options?: SendOptions) {
+    return this.writeProperty('buzzer', enabled, options);
+  }
+}
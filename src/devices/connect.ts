@@ -0,0 +1,45 @@
+import { MiIODevice } from '../miio/device';
+import { DeviceInfo } from '../miio/device_info';
+import { createMiIOClient, CreateMiIOClientOptions } from '../miio/factory';
+import { AIR_PURIFIER_MODELS, AirPurifierDevice } from './air_purifier';
+import { GATEWAY_MODELS, GatewayDevice } from './gateway';
+import { HUMIDIFIER_MODELS, HumidifierDevice } from './humidifier';
+import { PLUG_MODELS, PlugDevice } from './plug';
+import { DeviceRegistry } from './registry';
+import { VACUUM_MODELS, VacuumDevice } from './vacuum';
+
+export interface ConnectOptions extends CreateMiIOClientOptions {
+  // Defaults to `defaultRegistry`.
+  registry?: DeviceRegistry;
+  signal?: AbortSignal;
+}
+
+// Registry of the wrappers shipped with the library. Register more models
+// here to make `connect` pick them up.
+export const defaultRegistry = new DeviceRegistry()
+  .register(VACUUM_MODELS, VacuumDevice)
+  .register(AIR_PURIFIER_MODELS, AirPurifierDevice)
+  .register(HUMIDIFIER_MODELS, HumidifierDevice)
+  .register(PLUG_MODELS, PlugDevice)
+  .register(GATEWAY_MODELS, GatewayDevice);
+
+/**
+ * Connects to the device and wraps it with the class registered for the
+ * model it reports. The client is closed when the model cannot be read.
+ */
+export async function connect({
+  registry = defaultRegistry,
+  signal,
+  ...options
+}: ConnectOptions): Promise<MiIODevice> {
+  const client = createMiIOClient(options);
+  let info: DeviceInfo;
+  try {
+    info = await client.info({ signal });
+  } catch (err) {
+    await client.close();
+    throw err;
+  }
+  const DeviceClass = registry.resolve(info.model);
+  return new DeviceClass(client, info);
+}
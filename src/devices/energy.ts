@@ -0,0 +1,82 @@
+import { delay, throwIfAborted } from '../utils/promise_utils';
+
+export interface EnergySamplingOptions {
+  // Total sampling time in milliseconds.
+  duration: number;
+  // Time between samples in milliseconds.
+  interval?: number;
+  signal?: AbortSignal;
+  onSample?: (sample: PowerSample) => void;
+}
+
+export interface PowerSample {
+  time: Date;
+  // In W.
+  power: number;
+}
+
+export interface EnergyMeasurement {
+  samples: PowerSample[];
+  // In kWh.
+  energy: number;
+  // In W.
+  averagePower: number;
+  // Milliseconds between the first and the last sample.
+  duration: number;
+}
+
+const DEFAULT_INTERVAL = 10000;
+const MS_PER_HOUR = 3600000;
+
+/**
+ * Integrates power samples into energy with the trapezoidal rule.
+ */
+export function toEnergyMeasurement(samples: PowerSample[]): EnergyMeasurement {
+  let wattMilliseconds = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const elapsed = samples[i].time.getTime() - samples[i - 1].time.getTime();
+    wattMilliseconds +=
+      ((samples[i].power + samples[i - 1].power) / 2) * elapsed;
+  }
+  const duration =
+    samples.length > 1
+      ? samples[samples.length - 1].time.getTime() - samples[0].time.getTime()
+      : 0;
+  return {
+    samples,
+    energy: wattMilliseconds / MS_PER_HOUR / 1000,
+    averagePower:
+      duration > 0 ? wattMilliseconds / duration : samples[0]?.power ?? 0,
+    duration,
+  };
+}
+
+/**
+ * Reads the power every `interval` until `duration` has passed, and resolves
+ * the energy consumed in the meantime.
+ */
+export async function sampleEnergy(
+  readPower: () => Promise<number>,
+  {
+    duration,
+    interval = DEFAULT_INTERVAL,
+    signal,
+    onSample,
+  }: EnergySamplingOptions
+): Promise<EnergyMeasurement> {
+  const samples: PowerSample[] = [];
+  const startTime = Date.now();
+  for (;;) {
+    throwIfAborted(signal);
+    const power = await readPower();
+    const sample = { time: new Date(), power };
+    samples.push(sample);
+    onSample?.(sample);
+    const remaining = startTime + duration - Date.now();
+    if (remaining <= 0) {
+      break;
+    }
+    await delay(Math.min(interval, remaining), signal);
+  }
+  return toEnergyMeasurement(samples);
+}
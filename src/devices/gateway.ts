@@ -0,0 +1,156 @@
+import { SendOptions } from '../miio/client';
+import { MiIODevice } from '../miio/device';
+
+declare module '../miio/methods' {
+  interface MiIOMethodMap {
+    // ["lumi.0", "device_list"] lists the children of the gateway.
+    get_device_prop: { params: [string, string]; result: unknown[] };
+    // Every param is [sid, ...property names], replies the values in order.
+    get_device_prop_exp: {
+      params: [string, ...string[]][];
+      result: unknown[][];
+    };
+    // Key of the LAN developer protocol.
+    get_lumi_dpf_aes_key: { params: []; result: [string] };
+  }
+}
+
+// Type IDs reported in the device list.
+export enum GatewayChildType {
+  SWITCH = 1,
+  MOTION_SENSOR = 2,
+  DOOR_SENSOR = 3,
+  CUBE = 8,
+  TEMPERATURE_HUMIDITY_SENSOR = 10,
+  PLUG = 11,
+  AQARA_TEMPERATURE_HUMIDITY_SENSOR = 19,
+}
+
+export const GATEWAY_MODELS = ['lumi.gateway.*'];
+
+// Address of the gateway itself in `get_device_prop`.
+const GATEWAY_SID = 'lumi.0';
+// Fields of each child in the device list: sid, type, online and two unused
+// ones.
+const DEVICE_LIST_STRIDE = 5;
+
+/**
+ * Zigbee device paired with a gateway, addressed by its `sid`.
+ */
+export class GatewayChild {
+  constructor(
+    readonly gateway: GatewayDevice,
+    readonly sid: string,
+    readonly type: number,
+    readonly isOnline = true
+  ) {}
+
+  readProperties(
+    names: string[],
+    options?: SendOptions
+  ): Promise<Record<string, unknown>> {
+    return this.gateway.readChildProperties(this.sid, names, options);
+  }
+}
+
+export interface TemperatureHumidityReading {
+  // In °C.
+  temperature: number;
+  // In percent.
+  humidity: number;
+  // In kPa, Aqara sensors only.
+  pressure?: number;
+}
+
+export class TemperatureHumiditySensor extends GatewayChild {
+  async read(options?: SendOptions): Promise<TemperatureHumidityReading> {
+    const names = ['temperature', 'humidity'];
+    if (this.type === GatewayChildType.AQARA_TEMPERATURE_HUMIDITY_SENSOR) {
+      names.push('pressure');
+    }
+    const { temperature, humidity, pressure } = await this.readProperties(
+      names,
+      options
+    );
+    // Temperature and humidity are reported in hundredths, pressure in Pa.
+    return {
+      temperature: Number(temperature) / 100,
+      humidity: Number(humidity) / 100,
+      pressure: pressure == null ? undefined : Number(pressure) / 1000,
+    };
+  }
+}
+
+export class DoorSensor extends GatewayChild {
+  async isOpen(options?: SendOptions): Promise<boolean> {
+    const { status } = await this.readProperties(['status'], options);
+    return status === 'open';
+  }
+}
+
+export class MotionSensor extends GatewayChild {
+  // Seconds since the last motion, 0 while moving.
+  async getIdleTime(options?: SendOptions): Promise<number> {
+    const { status, no_motion } = await this.readProperties(
+      ['status', 'no_motion'],
+      options
+    );
+    return status === 'motion' ? 0 : Number(no_motion ?? 0);
+  }
+}
+
+const CHILD_CLASSES: { [type: number]: typeof GatewayChild } = {
+  [GatewayChildType.MOTION_SENSOR]: MotionSensor,
+  [GatewayChildType.DOOR_SENSOR]: DoorSensor,
+  [GatewayChildType.TEMPERATURE_HUMIDITY_SENSOR]: TemperatureHumiditySensor,
+  [GatewayChildType.AQARA_TEMPERATURE_HUMIDITY_SENSOR]: TemperatureHumiditySensor,
+};
+
+/**
+ * Xiaomi and Aqara gateways, proxying their Zigbee children over miIO.
+ */
+export class GatewayDevice extends MiIODevice {
+  async getChildren(options?: SendOptions): Promise<GatewayChild[]> {
+    const { result } = await this.client.send(
+      'get_device_prop',
+      [GATEWAY_SID, 'device_list'],
+      options
+    );
+    const children: GatewayChild[] = [];
+    for (let i = 0; i + 1 < result.length; i += DEVICE_LIST_STRIDE) {
+      const sid = String(result[i]);
+      const type = Number(result[i + 1]);
+      const online = result[i + 2];
+      const ChildClass = CHILD_CLASSES[type] ?? GatewayChild;
+      children.push(new ChildClass(this, sid, type, online !== 0));
+    }
+    return children;
+  }
+
+  async readChildProperties(
+    sid: string,
+    names: string[],
+    options?: SendOptions
+  ): Promise<Record<string, unknown>> {
+    const {
+      result: [values = []],
+    } = await this.client.send(
+      'get_device_prop_exp',
+      [[sid, ...names]],
+      options
+    );
+    const properties: Record<string, unknown> = {};
+    names.forEach((name, index) => {
+      properties[name] = values[index];
+    });
+    return properties;
+  }
+
+  // Key for signing writes of the LAN developer protocol.
+  async getDeveloperKey(options?: SendOptions): Promise<string> {
+    const {
+      result: [key],
+    } = await this.client.send('get_lumi_dpf_aes_key', [], options);
+    return key;
+  }
+}
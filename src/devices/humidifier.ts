@@ -0,0 +1,178 @@
+import { MiIOClient, SendOptions } from '../miio/client';
+import { DeviceInfo } from '../miio/device_info';
+import { LedBrightness } from './air_purifier';
+import {
+  DeviceProfile,
+  DeviceProtocol,
+  identity,
+  ProfileDevice,
+  toBoolean,
+  toNumber,
+  toOnOff,
+} from './profile_device';
+
+declare module '../miio/methods' {
+  interface MiIOMethodMap {
+    set_limit_hum: { params: [number]; result: ['ok'] };
+  }
+}
+
+export enum HumidifierMode {
+  AUTO = 'auto',
+  SILENT = 'silent',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+export interface HumidifierStatus {
+  power: boolean;
+  mode: HumidifierMode;
+  // In percent.
+  targetHumidity: number;
+  // In percent.
+  humidity: number;
+  // In °C.
+  temperature: number;
+  // Water left in the tank in percent.
+  waterLevel: number;
+  childLock: boolean;
+  ledBrightness: LedBrightness;
+  buzzer: boolean;
+}
+
+export const HUMIDIFIER_MODELS = ['zhimi.humidifier.*'];
+
+export const HUMIDIFIER_MIOT_MODELS = ['zhimi.humidifier.ca4'];
+
+const MIOT_MODES = [
+  HumidifierMode.AUTO,
+  HumidifierMode.SILENT,
+  HumidifierMode.MEDIUM,
+  HumidifierMode.HIGH,
+];
+
+// The tank reports a depth of 0 to 120 on legacy models, 0 to 128 on MIoT ones.
+const LEGACY_MAX_DEPTH = 120;
+const MIOT_MAX_DEPTH = 128;
+
+const LEGACY_PROFILE: DeviceProfile<HumidifierStatus> = {
+  protocol: 'legacy',
+  properties: {
+    power: {
+      name: 'power',
+      decode: toBoolean,
+      write: value => ['set_power', [toOnOff(value)]],
+    },
+    mode: {
+      name: 'mode',
+      decode: value => value as HumidifierMode,
+      write: value => ['set_mode', [value]],
+    },
+    targetHumidity: {
+      name: 'limit_hum',
+      decode: toNumber,
+      write: value => ['set_limit_hum', [value]],
+    },
+    humidity: { name: 'humidity', decode: toNumber },
+    // In 0.1°C.
+    temperature: { name: 'temp_dec', decode: value => Number(value) / 10 },
+    waterLevel: {
+      name: 'depth',
+      decode: value => Math.round((Number(value) / LEGACY_MAX_DEPTH) * 100),
+    },
+    childLock: {
+      name: 'child_lock',
+      decode: toBoolean,
+      write: value => ['set_child_lock', [toOnOff(value)]],
+    },
+    ledBrightness: {
+      name: 'led_b',
+      decode: toNumber,
+      write: value => ['set_led_b', [value]],
+    },
+    buzzer: {
+      name: 'buzzer',
+      decode: toBoolean,
+      write: value => ['set_buzzer', [toOnOff(value)]],
+    },
+  },
+};
+
+const MIOT_PROFILE: DeviceProfile<HumidifierStatus> = {
+  protocol: 'miot',
+  properties: {
+    power: { siid: 2, piid: 1, decode: toBoolean, encode: identity },
+    mode: {
+      siid: 2,
+      piid: 5,
+      decode: value => MIOT_MODES[value as number],
+      encode: value => MIOT_MODES.indexOf(value),
+    },
+    targetHumidity: { siid: 2, piid: 6, decode: toNumber, encode: identity },
+    waterLevel: {
+      siid: 2,
+      piid: 7,
+      decode: value => Math.round((Number(value) / MIOT_MAX_DEPTH) * 100),
+    },
+    temperature: { siid: 3, piid: 7, decode: toNumber },
+    humidity: { siid: 3, piid: 9, decode: toNumber },
+    buzzer: { siid: 4, piid: 1, decode: toBoolean, encode: identity },
+    // 0 is off and 2 is bright, the other way around of `LedBrightness`.
+    ledBrightness: {
+      siid: 5,
+      piid: 2,
+      decode: value => 2 - Number(value),
+      encode: value => 2 - value,
+    },
+    childLock: { siid: 6, piid: 1, decode: toBoolean, encode: identity },
+  },
+};
+
+export function getHumidifierProtocol(model?: string): DeviceProtocol {
+  return model && HUMIDIFIER_MIOT_MODELS.indexOf(model) >= 0
+    ? 'miot'
+    : 'legacy';
+}
+
+/**
+ * Xiaomi evaporative humidifiers, speaking the legacy or the MIoT protocol
+ * depending on the model.
+ */
+export class HumidifierDevice extends ProfileDevice<HumidifierStatus> {
+  constructor(
+    client: MiIOClient,
+    info?: DeviceInfo,
+    protocol = getHumidifierProtocol(info?.model)
+  ) {
+    super(client, info, protocol === 'miot' ? MIOT_PROFILE : LEGACY_PROFILE);
+  }
+
+  // Properties missing on the model are left out.
+  getStatus(options?: SendOptions): Promise<Partial<HumidifierStatus>> {
+    return this.readProperties(options);
+  }
+
+  setPower(power: boolean, options?: SendOptions) {
+    return this.writeProperty('power', power, options);
+  }
+
+  setMode(mode: HumidifierMode, options?: SendOptions) {
+    return this.writeProperty('mode', mode, options);
+  }
+
+  setTargetHumidity(humidity: number, options?: SendOptions) {
+    return this.writeProperty('targetHumidity', humidity, options);
+  }
+
+  setChildLock(enabled: boolean, options?: SendOptions) {
+    return this.writeProperty('childLock', enabled, options);
+  }
+
+  setLedBrightness(brightness: LedBrightness, options?: SendOptions) {
+    return this.writeProperty('ledBrightness', brightness, options);
+  }
+
+  setBuzzer(enabled: boolean, options?: SendOptions) {
+    return this.writeProperty('buzzer', enabled, options);
+  }
+}
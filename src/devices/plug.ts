@@ -0,0 +1,238 @@
+import { MiIOClient, SendOptions } from '../miio/client';
+import { DeviceInfo } from '../miio/device_info';
+import { MiIOUnsupportedError } from '../miio/errors';
+import {
+  EnergyMeasurement,
+  EnergySamplingOptions,
+  sampleEnergy,
+} from './energy';
+import {
+  DeviceProfile,
+  DeviceProtocol,
+  identity,
+  ProfileDevice,
+  toBoolean,
+  toNumber,
+  toOnOff,
+} from './profile_device';
+
+declare module '../miio/methods' {
+  interface MiIOMethodMap {
+    set_usb_on: { params: []; result: ['ok'] };
+    set_usb_off: { params: []; result: ['ok'] };
+    set_wifi_led: { params: ['on' | 'off']; result: ['ok'] };
+    // Load power in 0.01 W.
+    get_power: { params: []; result: [number] };
+  }
+}
+
+export interface PlugStatus {
+  // State of the first outlet.
+  power: boolean;
+  usbPower: boolean;
+  led: boolean;
+  // In °C.
+  temperature: number;
+  // Load power in W.
+  loadPower: number;
+  // Energy consumed since the device was set up, in kWh.
+  energy: number;
+}
+
+export const PLUG_MODELS = [
+  'chuangmi.plug.*',
+  'cuco.plug.*',
+  'qmi.powerstrip.*',
+  'zimi.powerstrip.*',
+];
+
+// Number of outlets of MIoT models. Outlet n is switched by the `on`
+// property of service n + 1, add power strips following that layout here.
+export const PLUG_MIOT_OUTLETS: { [model: string]: number } = {
+  'chuangmi.plug.212a01': 1,
+  'cuco.plug.cp1': 1,
+  'cuco.plug.cp2': 1,
+};
+
+// Legacy models reading the load power with `get_power`.
+const GET_POWER_MODELS = ['chuangmi.plug.v3'];
+
+const LEGACY_PLUG_PROFILE: DeviceProfile<PlugStatus> = {
+  protocol: 'legacy',
+  properties: {
+    power: {
+      name: 'on',
+      decode: toBoolean,
+      write: value => ['set_power', [toOnOff(value)]],
+    },
+    usbPower: {
+      name: 'usb_on',
+      decode: toBoolean,
+      write: value => [value ? 'set_usb_on' : 'set_usb_off', []],
+    },
+    temperature: { name: 'temperature', decode: toNumber },
+    led: {
+      name: 'wifi_led',
+      decode: toBoolean,
+      write: value => ['set_wifi_led', [toOnOff(value)]],
+    },
+  },
+};
+
+const LEGACY_POWER_STRIP_PROFILE: DeviceProfile<PlugStatus> = {
+  protocol: 'legacy',
+  properties: {
+    power: {
+      name: 'power',
+      decode: toBoolean,
+      write: value => ['set_power', [toOnOff(value)]],
+    },
+    temperature: { name: 'temperature', decode: toNumber },
+    loadPower: { name: 'power_consume_rate', decode: toNumber },
+    led: {
+      name: 'wifi_led',
+      decode: toBoolean,
+      write: value => ['set_wifi_led', [toOnOff(value)]],
+    },
+  },
+};
+
+const MIOT_PROFILE: DeviceProfile<PlugStatus> = {
+  protocol: 'miot',
+  properties: {
+    power: { siid: 2, piid: 1, decode: toBoolean, encode: identity },
+    temperature: { siid: 2, piid: 6, decode: toNumber },
+    led: { siid: 3, piid: 1, decode: toBoolean, encode: identity },
+    energy: { siid: 5, piid: 1, decode: toNumber },
+    loadPower: { siid: 5, piid: 6, decode: toNumber },
+  },
+};
+
+// Only own keys count, inherited ones like "constructor" are not models.
+function getMiotOutlets(model?: string): number | undefined {
+  return model && Object.prototype.hasOwnProperty.call(PLUG_MIOT_OUTLETS, model)
+    ? PLUG_MIOT_OUTLETS[model]
+    : undefined;
+}
+
+export function getPlugProtocol(model?: string): DeviceProtocol {
+  return getMiotOutlets(model) != null ? 'miot' : 'legacy';
+}
+
+function getProfile(protocol: DeviceProtocol, model?: string) {
+  if (protocol === 'miot') {
+    return MIOT_PROFILE;
+  }
+  return model && model.indexOf('.powerstrip.') >= 0
+    ? LEGACY_POWER_STRIP_PROFILE
+    : LEGACY_PLUG_PROFILE;
+}
+
+/**
+ * Smart plugs and power strips, speaking the legacy or the MIoT protocol
+ * depending on the model.
+ */
+export class PlugDevice extends ProfileDevice<PlugStatus> {
+  readonly outlets: number;
+
+  // `outlets` only applies to MIoT models, for strips missing in
+  // `PLUG_MIOT_OUTLETS`.
+  constructor(
+    client: MiIOClient,
+    info?: DeviceInfo,
+    protocol = getPlugProtocol(info?.model),
+    outlets = getMiotOutlets(info?.model) ?? 1
+  ) {
+    super(client, info, getProfile(protocol, info?.model));
+    this.outlets = protocol === 'miot' ? outlets : 1;
+  }
+
+  // Properties missing on the model are left out.
+  async getStatus(options?: SendOptions): Promise<Partial<PlugStatus>> {
+    const status = await this.readProperties(options);
+    if (this.hasGetPower()) {
+      status.loadPower = await this.getLoadPower(options);
+    }
+    return status;
+  }
+
+  // Reads the state of every outlet, the first one at index 0.
+  async getOutlets(options?: SendOptions): Promise<boolean[]> {
+    if (this.protocol === 'legacy') {
+      const { power } = await this.readProperties(options, ['power']);
+      return [!!power];
+    }
+    const results = await this.client.getProperties(
+      this.getOutletIds(),
+      options
+    );
+    return results.map(({ value }) => toBoolean(value));
+  }
+
+  // Switches the outlet, counting from 1.
+  async setPower(power: boolean, outlet = 1, options?: SendOptions) {
+    if (outlet === 1) {
+      return this.writeProperty('power', power, options);
+    }
+    if (this.protocol === 'legacy' || outlet < 1 || outlet > this.outlets) {
+      throw new MiIOUnsupportedError(`outlet ${outlet}`, this.model);
+    }
+    const [result] = await this.client.setProperties(
+      [{ siid: outlet + 1, piid: 1, value: power }],
+      options
+    );
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  setUsbPower(power: boolean, options?: SendOptions) {
+    return this.writeProperty('usbPower', power, options);
+  }
+
+  setLed(enabled: boolean, options?: SendOptions) {
+    return this.writeProperty('led', enabled, options);
+  }
+
+  // In W.
+  async getLoadPower(options?: SendOptions): Promise<number> {
+    if (this.hasGetPower()) {
+      const {
+        result: [power],
+      } = await this.client.send('get_power', [], options);
+      return power / 100;
+    }
+    const { loadPower } = await this.readProperties(options, ['loadPower']);
+    if (loadPower == null) {
+      throw new MiIOUnsupportedError('loadPower', this.model);
+    }
+    return loadPower;
+  }
+
+  /**
+   * Samples the load power over `duration` and resolves the energy consumed
+   * in the meantime, for models not reporting the energy themselves.
+   */
+  measureEnergy(options: EnergySamplingOptions): Promise<EnergyMeasurement> {
+    return sampleEnergy(
+      () => this.getLoadPower({ signal: options.signal }),
+      options
+    );
+  }
+
+  private hasGetPower() {
+    return (
+      this.protocol === 'legacy' &&
+      !!this.model &&
+      GET_POWER_MODELS.indexOf(this.model) >= 0
+    );
+  }
+
+  private getOutletIds() {
+    const ids = [];
+    for (let outlet = 1; outlet <= this.outlets; outlet++) {
+      ids.push({ siid: outlet + 1, piid: 1 });
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,132 @@
+import { MiIOClient, SendOptions } from '../miio/client';
+import { MiIODevice } from '../miio/device';
+import { DeviceInfo } from '../miio/device_info';
+import { MiIOUnsupportedError } from '../miio/errors';
+import { MiotPropertyId } from '../miio/miot';
+
+// Legacy devices read properties by name with `get_prop` and write them with
+// a method per property, MIoT devices use `get_properties`/`set_properties`.
+export type DeviceProtocol = 'legacy' | 'miot';
+
+export interface LegacyPropertyMapping<T> {
+  // Name in `get_prop`.
+  name: string;
+  decode: (value: unknown) => T;
+  // Method and params writing the value, missing for read-only properties.
+  write?: (value: T) => [string, unknown[]];
+}
+
+export interface MiotPropertyMapping<T> extends MiotPropertyId {
+  decode: (value: unknown) => T;
+  // Missing for read-only properties.
+  encode?: (value: T) => unknown;
+}
+
+export type DeviceProfile<T> =
+  | {
+      protocol: 'legacy';
+      properties: { [K in keyof T]?: LegacyPropertyMapping<T[K]> };
+    }
+  | {
+      protocol: 'miot';
+      properties: { [K in keyof T]?: MiotPropertyMapping<T[K]> };
+    };
+
+export const toBoolean = (value: unknown) => value === true || value === 'on';
+export const toNumber = (value: unknown) => Number(value);
+export const toOnOff = (value: boolean): 'on' | 'off' => (value ? 'on' : 'off');
+export const identity = <T>(value: T) => value;
+
+/**
+ * Base class of wrappers offering one API over the legacy and the MIoT
+ * protocols. Subclasses describe where every property lives in a profile per
+ * protocol.
+ */
+export class ProfileDevice<T> extends MiIODevice {
+  constructor(
+    client: MiIOClient,
+    info: DeviceInfo | undefined,
+    private readonly profile: DeviceProfile<T>
+  ) {
+    super(client, info);
+  }
+
+  get protocol(): DeviceProtocol {
+    return this.profile.protocol;
+  }
+
+  /**
+   * Reads the properties in one request, every property of the profile by
+   * default. Properties the device fails to read are left out.
+   */
+  protected async readProperties(
+    options?: SendOptions,
+    keys = Object.keys(this.profile.properties) as (keyof T)[]
+  ): Promise<Partial<T>> {
+    const values: Partial<T> = {};
+    keys = keys.filter(key => this.profile.properties[key]);
+    if (keys.length === 0) {
+      return values;
+    }
+    if (this.profile.protocol === 'legacy') {
+      const { properties } = this.profile;
+      const { result } = await this.client.send(
+        'get_prop',
+        keys.map(key => properties[key]!.name),
+        options
+      );
+      keys.forEach((key, index) => {
+        const value = result[index];
+        if (value != null && value !== '') {
+          values[key] = properties[key]!.decode(value);
+        }
+      });
+    } else {
+      const { properties } = this.profile;
+      const results = await this.client.getProperties(
+        keys.map(key => {
+          const { siid, piid } = properties[key]!;
+          return { siid, piid };
+        }),
+        options
+      );
+      keys.forEach((key, index) => {
+        const { code, value } = results[index];
+        if (code === 0) {
+          values[key] = properties[key]!.decode(value);
+        }
+      });
+    }
+    return values;
+  }
+
+  protected async writeProperty<K extends keyof T>(
+    key: K,
+    value: T[K],
+    options?: SendOptions
+  ): Promise<void> {
+    if (this.profile.protocol === 'legacy') {
+      const mapping: LegacyPropertyMapping<T[K]> | undefined = this.profile
+        .properties[key];
+      if (!mapping || !mapping.write) {
+        throw new MiIOUnsupportedError(String(key), this.model);
+      }
+      const [method, params] = mapping.write(value);
+      await this.client.send(method, params, options);
+    } else {
+      const mapping: MiotPropertyMapping<T[K]> | undefined = this.profile
+        .properties[key];
+      if (!mapping || !mapping.encode) {
+        throw new MiIOUnsupportedError(String(key), this.model);
+      }
+      const { siid, piid } = mapping;
+      const [result] = await this.client.setProperties(
+        [{ siid, piid, value: mapping.encode(value) }],
+        options
+      );
+      if (result.error) {
+        throw result.error;
+      }
+    }
+  }
+}
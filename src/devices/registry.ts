@@ -0,0 +1,47 @@
+import { MiIOClient } from '../miio/client';
+import { MiIODevice } from '../miio/device';
+import { DeviceInfo } from '../miio/device_info';
+
+export type DeviceClass<T extends MiIODevice = MiIODevice> = new (
+  client: MiIOClient,
+  info?: DeviceInfo
+) => T;
+
+/**
+ * Maps device models to wrapper classes. Models are either exact, e.g.
+ * "roborock.vacuum.s5", or prefixes ending with "*", e.g. "roborock.vacuum.*".
+ */
+export class DeviceRegistry {
+  private readonly classes = new Map<string, DeviceClass>();
+
+  constructor(private readonly fallback: DeviceClass = MiIODevice) {}
+
+  register(models: string | string[], deviceClass: DeviceClass) {
+    (Array.isArray(models) ? models : [models]).forEach(model =>
+      this.classes.set(model, deviceClass)
+    );
+    return this;
+  }
+
+  /**
+   * Picks the class of the exact model first, then the one of the longest
+   * matching prefix, and falls back to the generic class otherwise.
+   */
+  resolve(model: string): DeviceClass {
+    const exact = this.classes.get(model);
+    if (exact) {
+      return exact;
+    }
+    let match: { pattern: string; deviceClass: DeviceClass } | undefined;
+    this.classes.forEach((deviceClass, pattern) => {
+      if (
+        pattern.endsWith('*') &&
+        model.startsWith(pattern.slice(0, -1)) &&
+        (!match || pattern.length > match.pattern.length)
+      ) {
+        match = { pattern, deviceClass };
+      }
+    });
+    return match?.deviceClass ?? this.fallback;
+  }
+}
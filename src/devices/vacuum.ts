@@ -0,0 +1,439 @@
+import { SendOptions } from '../miio/client';
+import { MiIODevice } from '../miio/device';
+import {
+  toVacuumCleanRecord,
+  toVacuumCleanSummary,
+  toVacuumCron,
+  toVacuumDndTimer,
+  toVacuumTimer,
+  VacuumCleanRecord,
+  VacuumCleanSummary,
+  VacuumDndTimer,
+  VacuumTime,
+  VacuumTimer,
+  VacuumTimerSchedule,
+} from './vacuum_records';
+
+// Reply of `get_status`, as sent by the device.
+export interface RawVacuumStatus {
+  msg_ver: number;
+  msg_seq: number;
+  state: number;
+  battery: number;
+  // In seconds.
+  clean_time: number;
+  // In mm².
+  clean_area: number;
+  error_code: number;
+  map_present: number;
+  in_cleaning: number;
+  in_returning?: number;
+  fan_power: number;
+  dnd_enabled: number;
+  water_box_status?: number;
+  lock_status?: number;
+}
+
+// Reply of `get_consumable`, in seconds of use.
+export interface RawVacuumConsumables {
+  main_brush_work_time: number;
+  side_brush_work_time: number;
+  filter_work_time: number;
+  sensor_dirty_time: number;
+}
+
+export type VacuumConsumable = keyof RawVacuumConsumables;
+
+// [x1, y1, x2, y2, repeats]
+export type RawVacuumZone = [number, number, number, number, number];
+
+// Commands reply `["ok"]`, or `[0]` on older firmware.
+type VacuumAck = ['ok'] | [0];
+
+declare module '../miio/methods' {
+  interface MiIOMethodMap {
+    app_start: { params: []; result: VacuumAck };
+    app_stop: { params: []; result: VacuumAck };
+    app_pause: { params: []; result: VacuumAck };
+    app_charge: { params: []; result: VacuumAck };
+    find_me: { params: []; result: VacuumAck };
+    get_status: { params: []; result: [RawVacuumStatus] };
+    get_consumable: { params: []; result: [RawVacuumConsumables] };
+    reset_consumable: { params: [VacuumConsumable]; result: VacuumAck };
+    set_custom_mode: { params: [number]; result: VacuumAck };
+    app_segment_clean: { params: number[]; result: VacuumAck };
+    app_zoned_clean: {
+      params: RawVacuumZone[];
+      result: VacuumAck;
+    };
+    app_goto_target: { params: [number, number]; result: VacuumAck };
+  }
+}
+
+export enum VacuumState {
+  STARTING = 1,
+  CHARGER_DISCONNECTED = 2,
+  IDLE = 3,
+  REMOTE_CONTROL = 4,
+  CLEANING = 5,
+  RETURNING_HOME = 6,
+  MANUAL_MODE = 7,
+  CHARGING = 8,
+  CHARGING_PROBLEM = 9,
+  PAUSED = 10,
+  SPOT_CLEANING = 11,
+  ERROR = 12,
+  SHUTTING_DOWN = 13,
+  UPDATING = 14,
+  DOCKING = 15,
+  GOING_TO_TARGET = 16,
+  ZONED_CLEANING = 17,
+  SEGMENT_CLEANING = 18,
+  FULLY_CHARGED = 100,
+  OFFLINE = 101,
+}
+
+const VACUUM_STATE_DESCRIPTIONS: { [state: number]: string } = {
+  [VacuumState.STARTING]: 'Starting',
+  [VacuumState.CHARGER_DISCONNECTED]: 'Charger disconnected',
+  [VacuumState.IDLE]: 'Idle',
+  [VacuumState.REMOTE_CONTROL]: 'Remote control active',
+  [VacuumState.CLEANING]: 'Cleaning',
+  [VacuumState.RETURNING_HOME]: 'Returning home',
+  [VacuumState.MANUAL_MODE]: 'Manual mode',
+  [VacuumState.CHARGING]: 'Charging',
+  [VacuumState.CHARGING_PROBLEM]: 'Charging problem',
+  [VacuumState.PAUSED]: 'Paused',
+  [VacuumState.SPOT_CLEANING]: 'Spot cleaning',
+  [VacuumState.ERROR]: 'Error',
+  [VacuumState.SHUTTING_DOWN]: 'Shutting down',
+  [VacuumState.UPDATING]: 'Updating',
+  [VacuumState.DOCKING]: 'Docking',
+  [VacuumState.GOING_TO_TARGET]: 'Going to target',
+  [VacuumState.ZONED_CLEANING]: 'Zoned cleaning',
+  [VacuumState.SEGMENT_CLEANING]: 'Segment cleaning',
+  [VacuumState.FULLY_CHARGED]: 'Fully charged',
+  [VacuumState.OFFLINE]: 'Offline',
+};
+
+export function getVacuumStateDescription(state: number) {
+  return VACUUM_STATE_DESCRIPTIONS[state] ?? `Unknown state (${state})`;
+}
+
+export enum VacuumErrorCode {
+  NONE = 0,
+  LASER_SENSOR_FAULT = 1,
+  COLLISION_SENSOR_FAULT = 2,
+  WHEEL_FLOATING = 3,
+  CLIFF_SENSOR_FAULT = 4,
+  MAIN_BRUSH_BLOCKED = 5,
+  SIDE_BRUSH_BLOCKED = 6,
+  WHEEL_BLOCKED = 7,
+  DEVICE_STUCK = 8,
+  DUST_BIN_MISSING = 9,
+  FILTER_BLOCKED = 10,
+  MAGNETIC_FIELD_DETECTED = 11,
+  LOW_BATTERY = 12,
+  CHARGING_PROBLEM = 13,
+  BATTERY_FAILURE = 14,
+  WALL_SENSOR_FAULT = 15,
+  UNEVEN_SURFACE = 16,
+  SIDE_BRUSH_FAILURE = 17,
+  SUCTION_FAN_FAILURE = 18,
+  UNPOWERED_DOCK = 19,
+  LASER_SENSOR_BLOCKED = 21,
+  CHARGING_CONTACTS_DIRTY = 22,
+  DOCK_UNREACHABLE = 23,
+  NO_GO_ZONE_DETECTED = 24,
+}
+
+const VACUUM_ERROR_MESSAGES: { [code: number]: string } = {
+  [VacuumErrorCode.NONE]: 'No error',
+  [VacuumErrorCode.LASER_SENSOR_FAULT]: 'Laser distance sensor error',
+  [VacuumErrorCode.COLLISION_SENSOR_FAULT]: 'Collision sensor error',
+  [VacuumErrorCode.WHEEL_FLOATING]: 'Wheels are suspended, move the robot',
+  [VacuumErrorCode.CLIFF_SENSOR_FAULT]: 'Clean the cliff sensors',
+  [VacuumErrorCode.MAIN_BRUSH_BLOCKED]: 'Clean the main brush',
+  [VacuumErrorCode.SIDE_BRUSH_BLOCKED]: 'Clean the side brush',
+  [VacuumErrorCode.WHEEL_BLOCKED]: 'Main wheels are stuck',
+  [VacuumErrorCode.DEVICE_STUCK]: 'Robot is stuck, clear its surroundings',
+  [VacuumErrorCode.DUST_BIN_MISSING]: 'Dust bin is missing',
+  [VacuumErrorCode.FILTER_BLOCKED]: 'Clean the filter',
+  [VacuumErrorCode.MAGNETIC_FIELD_DETECTED]: 'Stuck in a magnetic barrier',
+  [VacuumErrorCode.LOW_BATTERY]: 'Low battery',
+  [VacuumErrorCode.CHARGING_PROBLEM]: 'Charging problem',
+  [VacuumErrorCode.BATTERY_FAILURE]: 'Battery failure',
+  [VacuumErrorCode.WALL_SENSOR_FAULT]: 'Clean the wall sensor',
+  [VacuumErrorCode.UNEVEN_SURFACE]: 'Place the robot on a flat surface',
+  [VacuumErrorCode.SIDE_BRUSH_FAILURE]: 'Side brush failure, restart the robot',
+  [VacuumErrorCode.SUCTION_FAN_FAILURE]: 'Suction fan failure',
+  [VacuumErrorCode.UNPOWERED_DOCK]: 'Charging dock is unpowered',
+  [VacuumErrorCode.LASER_SENSOR_BLOCKED]: 'Laser distance sensor is blocked',
+  [VacuumErrorCode.CHARGING_CONTACTS_DIRTY]: 'Clean the charging contacts',
+  [VacuumErrorCode.DOCK_UNREACHABLE]: 'Charging dock is unreachable',
+  [VacuumErrorCode.NO_GO_ZONE_DETECTED]: 'Stuck in a no-go zone',
+};
+
+export function getVacuumErrorMessage(code: number) {
+  return VACUUM_ERROR_MESSAGES[code] ?? `Unknown error (${code})`;
+}
+
+// Presets of `set_custom_mode`. Older models take a percentage instead.
+export enum VacuumFanSpeed {
+  QUIET = 101,
+  BALANCED = 102,
+  TURBO = 103,
+  MAX = 104,
+  // Mopping only, on models with a water tank.
+  OFF = 105,
+}
+
+export interface VacuumStatus {
+  state: VacuumState;
+  stateDescription: string;
+  errorCode: VacuumErrorCode;
+  errorMessage: string;
+  // In percent.
+  battery: number;
+  fanSpeed: number;
+  // In seconds, of the current or last cleaning.
+  cleaningTime: number;
+  // In m², of the current or last cleaning.
+  cleanedArea: number;
+  isCleaning: boolean;
+  isReturning: boolean;
+  isMapPresent: boolean;
+  isDndEnabled: boolean;
+  isWaterBoxAttached?: boolean;
+  raw: RawVacuumStatus;
+}
+
+export interface VacuumConsumableStatus {
+  // In seconds.
+  workTime: number;
+  // In seconds, 0 once the consumable is due for replacement.
+  remainingTime: number;
+  // In percent.
+  remaining: number;
+}
+
+export type VacuumConsumables = Record<
+  VacuumConsumable,
+  VacuumConsumableStatus
+>;
+
+const HOUR = 3600;
+
+// Recommended replacement intervals, in seconds of use.
+export const VACUUM_CONSUMABLE_LIFETIMES: Record<VacuumConsumable, number> = {
+  main_brush_work_time: 300 * HOUR,
+  side_brush_work_time: 200 * HOUR,
+  filter_work_time: 150 * HOUR,
+  sensor_dirty_time: 30 * HOUR,
+};
+
+// Rectangle in map coordinates, in millimeters.
+export interface VacuumZone {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  // Number of passes, defaults to 1.
+  repeats?: number;
+}
+
+export const VACUUM_MODELS = ['roborock.vacuum.*', 'rockrobo.vacuum.*'];
+
+export function toVacuumStatus(raw: RawVacuumStatus): VacuumStatus {
+  return {
+    state: raw.state,
+    stateDescription: getVacuumStateDescription(raw.state),
+    errorCode: raw.error_code,
+    errorMessage: getVacuumErrorMessage(raw.error_code),
+    battery: raw.battery,
+    fanSpeed: raw.fan_power,
+    cleaningTime: raw.clean_time,
+    cleanedArea: raw.clean_area / 1000000,
+    isCleaning: raw.in_cleaning !== 0,
+    isReturning: raw.in_returning === 1,
+    isMapPresent: raw.map_present === 1,
+    isDndEnabled: raw.dnd_enabled === 1,
+    isWaterBoxAttached:
+      raw.water_box_status == null ? undefined : raw.water_box_status === 1,
+    raw,
+  };
+}
+
+export function toVacuumConsumables(
+  raw: RawVacuumConsumables
+): VacuumConsumables {
+  const consumables = {} as VacuumConsumables;
+  (Object.keys(VACUUM_CONSUMABLE_LIFETIMES) as VacuumConsumable[]).forEach(
+    consumable => {
+      const lifetime = VACUUM_CONSUMABLE_LIFETIMES[consumable];
+      const workTime = raw[consumable] ?? 0;
+      const remainingTime = Math.max(0, lifetime - workTime);
+      consumables[consumable] = {
+        workTime,
+        remainingTime,
+        remaining: Math.round((remainingTime / lifetime) * 100),
+      };
+    }
+  );
+  return consumables;
+}
+
+/**
+ * Roborock and Xiaomi robot vacuums speaking the `app_*` protocol.
+ */
+export class VacuumDevice extends MiIODevice {
+  async start(options?: SendOptions) {
+    await this.client.send('app_start', [], options);
+  }
+
+  async stop(options?: SendOptions) {
+    await this.client.send('app_stop', [], options);
+  }
+
+  async pause(options?: SendOptions) {
+    await this.client.send('app_pause', [], options);
+  }
+
+  // Returns to the charging dock.
+  async charge(options?: SendOptions) {
+    await this.client.send('app_charge', [], options);
+  }
+
+  async findMe(options?: SendOptions) {
+    await this.client.send('find_me', [], options);
+  }
+
+  async getStatus(options?: SendOptions): Promise<VacuumStatus> {
+    const {
+      result: [status],
+    } = await this.client.send('get_status', [], options);
+    return toVacuumStatus(status);
+  }
+
+  async getConsumables(options?: SendOptions): Promise<VacuumConsumables> {
+    const {
+      result: [consumables],
+    } = await this.client.send('get_consumable', [], options);
+    return toVacuumConsumables(consumables);
+  }
+
+  async resetConsumable(consumable: VacuumConsumable, options?: SendOptions) {
+    await this.client.send('reset_consumable', [consumable], options);
+  }
+
+  async setFanSpeed(speed: VacuumFanSpeed | number, options?: SendOptions) {
+    await this.client.send('set_custom_mode', [speed], options);
+  }
+
+  // Cleans the rooms of the given segment IDs of the map.
+  async cleanSegments(segments: number[], options?: SendOptions) {
+    await this.client.send('app_segment_clean', segments, options);
+  }
+
+  async cleanZones(zones: VacuumZone[], options?: SendOptions) {
+    await this.client.send(
+      'app_zoned_clean',
+      zones.map<RawVacuumZone>(({ x1, y1, x2, y2, repeats = 1 }) => [
+        x1,
+        y1,
+        x2,
+        y2,
+        repeats,
+      ]),
+      options
+    );
+  }
+
+  // Moves to the point of the map, in millimeters.
+  async goTo(x: number, y: number, options?: SendOptions) {
+    await this.client.send('app_goto_target', [x, y], options);
+  }
+
+  async getCleanSummary(options?: SendOptions): Promise<VacuumCleanSummary> {
+    const { result } = await this.client.send('get_clean_summary', [], options);
+    return toVacuumCleanSummary(result);
+  }
+
+  async getCleanRecord(
+    recordId: number,
+    options?: SendOptions
+  ): Promise<VacuumCleanRecord | undefined> {
+    const {
+      result: [record],
+    } = await this.client.send('get_clean_record', [recordId], options);
+    return record && toVacuumCleanRecord(record);
+  }
+
+  // Reads the records of the summary one by one, latest first.
+  async getCleanHistory(options?: SendOptions): Promise<VacuumCleanRecord[]> {
+    const { recordIds } = await this.getCleanSummary(options);
+    const records: VacuumCleanRecord[] = [];
+    for (const recordId of recordIds) {
+      const record = await this.getCleanRecord(recordId, options);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  async getTimers(options?: SendOptions): Promise<VacuumTimer[]> {
+    const { result } = await this.client.send('get_timer', [], options);
+    return result.map(toVacuumTimer);
+  }
+
+  /**
+   * Adds a timer starting a full cleaning by default, and resolves its ID.
+   */
+  async addTimer(
+    schedule: VacuumTimerSchedule | string,
+    {
+      action = 'start_clean',
+      params = '',
+      ...options
+    }: SendOptions & { action?: string; params?: unknown } = {}
+  ): Promise<string> {
+    const id = Date.now().toString();
+    const cron =
+      typeof schedule === 'string' ? schedule : toVacuumCron(schedule);
+    await this.client.send(
+      'set_timer',
+      [[id, [cron, [action, params]]]],
+      options
+    );
+    return id;
+  }
+
+  async setTimerEnabled(id: string, enabled: boolean, options?: SendOptions) {
+    await this.client.send('upd_timer', [id, enabled ? 'on' : 'off'], options);
+  }
+
+  async deleteTimer(id: string, options?: SendOptions) {
+    await this.client.send('del_timer', [id], options);
+  }
+
+  async getDndTimer(options?: SendOptions): Promise<VacuumDndTimer> {
+    const {
+      result: [timer],
+    } = await this.client.send('get_dnd_timer', [], options);
+    return toVacuumDndTimer(timer);
+  }
+
+  // Enables do-not-disturb between the given times of the day.
+  async setDndTimer(start: VacuumTime, end: VacuumTime, options?: SendOptions) {
+    await this.client.send(
+      'set_dnd_timer',
+      [start.hour, start.minute, end.hour, end.minute],
+      options
+    );
+  }
+
+  async disableDnd(options?: SendOptions) {
+    await this.client.send('close_dnd_timer', [], options);
+  }
+}
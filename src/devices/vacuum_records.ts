@@ -0,0 +1,275 @@
+import { VacuumCronFormatError } from '../miio/errors';
+
+// Cleaning history, timers and do-not-disturb settings of robot vacuums. The
+// replies are arrays or objects depending on the firmware, both are decoded
+// into the same records here.
+
+// [duration in seconds, area in mm², count, record IDs], or an object on newer
+// firmware.
+export type RawVacuumCleanSummary =
+  | [number, number, number, number[]]
+  | {
+      clean_time: number;
+      clean_area: number;
+      clean_count: number;
+      records: number[];
+    };
+
+// [begin, end, duration, area, error, complete], times in Unix seconds, or an
+// object on newer firmware.
+export type RawVacuumCleanRecord =
+  | [number, number, number, number, number, number]
+  | {
+      begin: number;
+      end: number;
+      duration: number;
+      area: number;
+      error: number;
+      complete: number;
+    };
+
+// [id, state, [cron, [action, params]]], newer firmware appends more fields.
+export type RawVacuumTimer = [
+  string,
+  'on' | 'off',
+  [string, [string, unknown]],
+  ...unknown[]
+];
+
+export interface RawVacuumDndTimer {
+  start_hour: number;
+  start_minute: number;
+  end_hour: number;
+  end_minute: number;
+  enabled: number;
+}
+
+type VacuumAck = ['ok'] | [0];
+
+declare module '../miio/methods' {
+  interface MiIOMethodMap {
+    get_clean_summary: { params: []; result: RawVacuumCleanSummary };
+    get_clean_record: { params: [number]; result: RawVacuumCleanRecord[] };
+    get_timer: { params: []; result: RawVacuumTimer[] };
+    set_timer: {
+      params: [[string, [string, [string, unknown]]]];
+      result: VacuumAck;
+    };
+    upd_timer: { params: [string, 'on' | 'off']; result: VacuumAck };
+    del_timer: { params: [string]; result: VacuumAck };
+    get_dnd_timer: { params: []; result: [RawVacuumDndTimer] };
+    set_dnd_timer: {
+      params: [number, number, number, number];
+      result: VacuumAck;
+    };
+    close_dnd_timer: { params: []; result: VacuumAck };
+  }
+}
+
+export interface VacuumCleanSummary {
+  // In seconds.
+  totalDuration: number;
+  // In m².
+  totalArea: number;
+  count: number;
+  // IDs for `getCleanRecord`, latest first.
+  recordIds: number[];
+}
+
+export interface VacuumCleanRecord {
+  start: Date;
+  end: Date;
+  // In seconds.
+  duration: number;
+  // In m².
+  area: number;
+  // See `VacuumErrorCode`.
+  errorCode: number;
+  isCompleted: boolean;
+}
+
+// Fields of a cron expression, undefined for "*". Times are in the timezone of
+// the device.
+export interface VacuumTimerSchedule {
+  minute: number;
+  hour: number;
+  daysOfMonth?: number[];
+  months?: number[];
+  // 0 is Sunday.
+  daysOfWeek?: number[];
+}
+
+export interface VacuumTimer {
+  // Creation time in Unix milliseconds, as a string.
+  id: string;
+  enabled: boolean;
+  cron: string;
+  // Undefined when the schedule cannot hold the cron expression, see
+  // `parseVacuumCron`.
+  schedule?: VacuumTimerSchedule;
+  // e.g. "start_clean".
+  action: string;
+  params: unknown;
+}
+
+export interface VacuumTime {
+  hour: number;
+  minute: number;
+}
+
+export interface VacuumDndTimer {
+  enabled: boolean;
+  start: VacuumTime;
+  end: VacuumTime;
+}
+
+const MM2_PER_M2 = 1000000;
+
+export function toVacuumCleanSummary(
+  raw: RawVacuumCleanSummary
+): VacuumCleanSummary {
+  const [duration, area, count, recordIds] = Array.isArray(raw)
+    ? raw
+    : [raw.clean_time, raw.clean_area, raw.clean_count, raw.records];
+  return {
+    totalDuration: duration,
+    totalArea: area / MM2_PER_M2,
+    count,
+    recordIds: recordIds ?? [],
+  };
+}
+
+export function toVacuumCleanRecord(
+  raw: RawVacuumCleanRecord
+): VacuumCleanRecord {
+  const [begin, end, duration, area, error, complete] = Array.isArray(raw)
+    ? raw
+    : [raw.begin, raw.end, raw.duration, raw.area, raw.error, raw.complete];
+  return {
+    start: new Date(begin * 1000),
+    end: new Date(end * 1000),
+    duration,
+    area: area / MM2_PER_M2,
+    errorCode: error,
+    isCompleted: complete === 1,
+  };
+}
+
+// Bounds of the day of month, month and day of week fields.
+const DAY_OF_MONTH_RANGE = [1, 31];
+const MONTH_RANGE = [1, 12];
+const DAY_OF_WEEK_RANGE = [0, 6];
+
+function parseCronNumber(value: string, [min, max]: number[]) {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < min || number > max) {
+    throw new VacuumCronFormatError(`Invalid cron value "${value}".`);
+  }
+  return number;
+}
+
+function parseCronField(field: string, range: number[]): number[] | undefined {
+  if (field === '*') {
+    return undefined;
+  }
+  return field.split(',').reduce<number[]>((values, part) => {
+    // A single value, a range like "1-5", or "*", a range or a start value
+    // with a step like "*/2".
+    const [base, step, ...extraSteps] = part.split('/');
+    const bounds = base === '*' ? range.map(String) : base.split('-');
+    if (extraSteps.length > 0 || bounds.length > 2) {
+      throw new VacuumCronFormatError(`Invalid cron field "${field}".`);
+    }
+    const start = parseCronNumber(bounds[0], range);
+    let end = start;
+    if (bounds.length > 1) {
+      end = parseCronNumber(bounds[1], range);
+    } else if (step != null) {
+      // "5/2" runs up to the end of the range.
+      end = range[1];
+    }
+    const increment = step != null ? parseCronNumber(step, [1, range[1]]) : 1;
+    for (let value = start; value <= end; value += increment) {
+      values.push(value);
+    }
+    return values;
+  }, []);
+}
+
+/**
+ * Decodes the cron expression of a timer. Throws `VacuumCronFormatError` for
+ * expressions the schedule cannot hold, which is the case of anything but a
+ * single value in the minute and hour fields.
+ */
+export function parseVacuumCron(cron: string): VacuumTimerSchedule {
+  const [
+    minute,
+    hour,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    ...extraFields
+  ] = cron.trim().split(/\s+/);
+  if (extraFields.length > 0) {
+    throw new VacuumCronFormatError(`Invalid cron expression "${cron}".`);
+  }
+  return {
+    minute: parseCronNumber(minute ?? '', [0, 59]),
+    hour: parseCronNumber(hour ?? '', [0, 23]),
+    daysOfMonth: parseCronField(daysOfMonth ?? '*', DAY_OF_MONTH_RANGE),
+    months: parseCronField(months ?? '*', MONTH_RANGE),
+    daysOfWeek: parseCronField(daysOfWeek ?? '*', DAY_OF_WEEK_RANGE),
+  };
+}
+
+export function toVacuumCron({
+  minute,
+  hour,
+  daysOfMonth,
+  months,
+  daysOfWeek,
+}: VacuumTimerSchedule) {
+  const toField = (values?: number[]) =>
+    values && values.length > 0 ? values.join(',') : '*';
+  return [
+    minute,
+    hour,
+    toField(daysOfMonth),
+    toField(months),
+    toField(daysOfWeek),
+  ].join(' ');
+}
+
+function parseSchedule(cron: string) {
+  try {
+    return parseVacuumCron(cron);
+  } catch (err) {
+    if (err instanceof VacuumCronFormatError) {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+export function toVacuumTimer([
+  id,
+  state,
+  [cron, [action, params]],
+]: RawVacuumTimer): VacuumTimer {
+  return {
+    id,
+    enabled: state === 'on',
+    cron,
+    schedule: parseSchedule(cron),
+    action,
+    params,
+  };
+}
+
+export function toVacuumDndTimer(raw: RawVacuumDndTimer): VacuumDndTimer {
+  return {
+    enabled: raw.enabled === 1,
+    start: { hour: raw.start_hour, minute: raw.start_minute },
+    end: { hour: raw.end_hour, minute: raw.end_minute },
+  };
+}
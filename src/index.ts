@@ -1,3 +1,198 @@
-export { MiIONetwork } from './miio/network';
-export { MiIOClient } from './miio/client';
-export { ConsoleLogger } from './miio/logger';
+export {
+  MiIONetwork,
+  DiscoveredDevice,
+  DiscoveryOptions,
+} from './miio/network';
+export {
+  MiIOClient,
+  MiIOClientConfig,
+  SendOptions,
+  ClientRetryPolicy,
+} from './miio/client';
+export {
+  createMiIOClient,
+  CreateMiIOClientOptions,
+  StandaloneMiIOClient,
+} from './miio/factory';
+export {
+  MiIOMessage,
+  MessageMetadata,
+  MiIOClientEvents,
+  MiIOMessageListener,
+} from './miio/events';
+export { ConsoleLogger, Logger, LogLevel } from './miio/logger';
+export {
+  provisionDevice,
+  ProvisionOptions,
+  ProvisionResult,
+} from './miio/provisioning';
+export {
+  updateFirmware,
+  FirmwareUpdateOptions,
+  OtaProgress,
+  OtaState,
+} from './miio/ota';
+export {
+  PropertyWatcher,
+  PropertyChange,
+  WatchOptions,
+  WatchMethod,
+} from './miio/property_watcher';
+export { RequestSerializer, ResponseDeserializer } from './miio/serializer';
+export {
+  MiIODeviceManager,
+  ManagedDeviceConfig,
+} from './miio/device_manager';
+export {
+  RequestScheduler,
+  SchedulerConfig,
+  ScheduleOptions,
+} from './miio/scheduler';
+export {
+  MiIOError,
+  MiIOAbortError,
+  MiIOClientClosedError,
+  MiIOQueueOverflowError,
+  MiIOTimeoutError,
+  MiIOChecksumError,
+  MiIOPacketFormatError,
+  MiIOHandshakeError,
+  MiIODeviceError,
+  MiIODeviceErrorCode,
+  MiIORetryExhaustedError,
+  MiotErrorCode,
+  MiotPropertyError,
+  MiotSpecValidationError,
+  MiIOUnsupportedError,
+  MiIOProvisioningError,
+  MiIOFirmwareUpdateError,
+  VacuumCronFormatError,
+  AqaraGatewayError,
+  isRetryableError,
+} from './miio/errors';
+export {
+  MiotPropertyId,
+  MiotPropertyValue,
+  MiotPropertyResult,
+  MiotActionResult,
+} from './miio/miot';
+export {
+  MiotSpec,
+  MiotSpecDocument,
+  MiotSpecService,
+  MiotSpecProperty,
+  MiotSpecAction,
+  MiotSpecEvent,
+  MiotFormat,
+  MiotAccess,
+  validateValue,
+} from './miio/miot_spec';
+export {
+  MiIOMethodMap,
+  MiIOMethod,
+  MethodParams,
+  MethodResult,
+  RawDeviceInfo,
+  RawRouterConfig,
+  RawOtaRequest,
+} from './miio/methods';
+export { MiIODevice } from './miio/device';
+export { DeviceInfo } from './miio/device_info';
+export { MiotDevice } from './miio/miot_device';
+export { connect, ConnectOptions, defaultRegistry } from './devices/connect';
+export { DeviceRegistry, DeviceClass } from './devices/registry';
+export {
+  VacuumDevice,
+  VacuumState,
+  VacuumErrorCode,
+  VacuumFanSpeed,
+  VacuumStatus,
+  VacuumConsumable,
+  VacuumConsumables,
+  VacuumConsumableStatus,
+  VacuumZone,
+  VACUUM_MODELS,
+  VACUUM_CONSUMABLE_LIFETIMES,
+  getVacuumStateDescription,
+  getVacuumErrorMessage,
+} from './devices/vacuum';
+export {
+  VacuumCleanSummary,
+  VacuumCleanRecord,
+  VacuumTimer,
+  VacuumTimerSchedule,
+  VacuumDndTimer,
+  VacuumTime,
+  parseVacuumCron,
+  toVacuumCron,
+} from './devices/vacuum_records';
+export {
+  ProfileDevice,
+  DeviceProfile,
+  DeviceProtocol,
+  LegacyPropertyMapping,
+  MiotPropertyMapping,
+} from './devices/profile_device';
+export {
+  AirPurifierDevice,
+  AirPurifierMode,
+  AirPurifierStatus,
+  LedBrightness,
+  AIR_PURIFIER_MODELS,
+  AIR_PURIFIER_MIOT_MODELS,
+} from './devices/air_purifier';
+export {
+  HumidifierDevice,
+  HumidifierMode,
+  HumidifierStatus,
+  HUMIDIFIER_MODELS,
+  HUMIDIFIER_MIOT_MODELS,
+} from './devices/humidifier';
+export {
+  PlugDevice,
+  PlugStatus,
+  PLUG_MODELS,
+  PLUG_MIOT_OUTLETS,
+} from './devices/plug';
+export {
+  sampleEnergy,
+  toEnergyMeasurement,
+  EnergyMeasurement,
+  EnergySamplingOptions,
+  PowerSample,
+} from './devices/energy';
+export {
+  GatewayDevice,
+  GatewayChild,
+  GatewayChildType,
+  TemperatureHumiditySensor,
+  TemperatureHumidityReading,
+  DoorSensor,
+  MotionSensor,
+  GATEWAY_MODELS,
+} from './devices/gateway';
+export { AqaraNetwork } from './aqara/network';
+export {
+  AqaraClient,
+  AqaraClientConfig,
+  AqaraClientEvents,
+  AqaraDeviceState,
+  AqaraGatewayInfo,
+  AqaraRequestOptions,
+} from './aqara/client';
+export {
+  createAqaraClient,
+  CreateAqaraClientOptions,
+  StandaloneAqaraClient,
+} from './aqara/factory';
+export {
+  AqaraMessage,
+  decodeAqaraData,
+  getAqaraWriteKey,
+  AQARA_MULTICAST_ADDRESS,
+  AQARA_DISCOVERY_PORT,
+  AQARA_PORT,
+} from './aqara/messages';
+export { generateDeviceClass, GenerateOptions } from './codegen/miot_codegen';
+export { RetryPolicy, DEFAULT_RETRY_POLICY } from './utils/retry';
+export { parseToken, TokenLike } from './utils/token_utils';
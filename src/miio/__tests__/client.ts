@@ -1,7 +1,12 @@
 import createMockInstance from 'jest-create-mock-instance';
-import { MiIOClient, WaitingRequest } from '../client';
+import { MiIOClient, MiIOClientConfig, WaitingRequest } from '../client';
 import { ConsoleLogger, Logger } from '../logger';
-import { MessageHandler, MiIONetwork, Unsubscriber } from '../network';
+import {
+  CloseHandler,
+  MessageHandler,
+  MiIONetwork,
+  Unsubscriber,
+} from '../network';
 import {
   HandshakeRequest,
   HandshakeResponse,
@@ -11,6 +16,15 @@ import {
 } from '../packet';
 import { RequestSerializer, ResponseDeserializer } from '../serializer';
 import { createPacket } from '../tests/utils';
+import {
+  MiIOAbortError,
+  MiIOChecksumError,
+  MiIOClientClosedError,
+  MiIODeviceError,
+  MiIOHandshakeError,
+  MiIORetryExhaustedError,
+  MiIOTimeoutError,
+} from '../errors';
 
 jest.mock('dgram');
 jest.mock('../serializer');
@@ -30,6 +44,7 @@ describe('MiIOClient', () => {
   const INITIAL_STAMP = 10;
   const DEVICE_ID = 5;
   let messageHandlers: MessageHandler[] = [];
+  let closeHandlers: CloseHandler[] = [];
   let network: jest.Mocked<MiIONetwork>;
   let logger: jest.Mocked<Logger>;
   let serializer: jest.Mocked<RequestSerializer>;
@@ -47,6 +62,10 @@ describe('MiIOClient', () => {
       messageHandlers.push(handler);
       return () => null;
     });
+    network.addCloseHandler.mockImplementation(handler => {
+      closeHandlers.push(handler);
+      return () => null;
+    });
     serializer = createMockInstance(RequestSerializer);
     serializer.serialize.mockReturnValue(
       createPacket(
@@ -80,9 +99,134 @@ describe('MiIOClient', () => {
 
   afterEach(() => {
     messageHandlers = [];
+    closeHandlers = [];
     unsubscriber();
   });
 
+  describe('getDeviceToken', () => {
+    it('returns the token revealed by the handshake', async () => {
+      const token = Buffer.alloc(16, 0x12);
+      const promise = client.getDeviceToken();
+      await flushPromises();
+      deserializer.deserialize.mockReturnValue(
+        new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of(), token)
+      );
+      emit();
+      expect(await promise).toEqual(token);
+      expect(serializer.serialize).toBeCalledWith(new HandshakeRequest());
+    });
+
+    it('returns undefined when the token is hidden', async () => {
+      const promise = client.getDeviceToken();
+      await flushPromises();
+      emit();
+      expect(await promise).toBeUndefined();
+    });
+
+    it('clears the pending request when sending fails', async () => {
+      jest.useFakeTimers('modern');
+      const error = new Error('send ENETUNREACH');
+      network.send.mockRejectedValue(error);
+
+      await expect(client.getDeviceToken()).rejects.toBe(error);
+      expect(
+        waitQueue[`address:${ADDRESS}+port:${MiIOClient.DEFAULT_PORT}`]
+      ).toEqual([]);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('events', () => {
+    function emitPayload(payload: object) {
+      deserializer.deserialize.mockReturnValueOnce(
+        new NormalResponse(
+          DEVICE_ID,
+          INITIAL_STAMP,
+          Buffer.from(JSON.stringify(payload))
+        )
+      );
+      emit();
+    }
+
+    it('emits notifications pushed by the device', () => {
+      const onMessage = jest.fn();
+      const onEvent = jest.fn();
+      client.on('message', onMessage);
+      client.on('event', onEvent);
+      const payload = { method: 'props', params: { power: 'on' } };
+      emitPayload(payload);
+
+      const metadata = {
+        address: ADDRESS,
+        port: MiIOClient.DEFAULT_PORT,
+        deviceId: DEVICE_ID,
+        stamp: INITIAL_STAMP,
+        receivedAt: expect.any(Date),
+      };
+      expect(onMessage).toBeCalledWith(payload, metadata);
+      expect(onEvent).toBeCalledWith(payload, metadata);
+    });
+
+    it('emits messages matching no request as unmatched', () => {
+      const onUnmatched = jest.fn();
+      client.on('unmatched', onUnmatched);
+      emitPayload({ id: 1, result: ['ok'] });
+      expect(onUnmatched).toBeCalledWith(
+        { id: 1, result: ['ok'] },
+        expect.anything()
+      );
+    });
+
+    it('emits replies of timed out requests as late responses', async () => {
+      recreateClient({
+        address: ADDRESS,
+        port: MiIOClient.DEFAULT_PORT,
+        counter: INITIAL_COUNTER,
+        requestTimeout: 10,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      const onLateResponse = jest.fn();
+      client.on('lateResponse', onLateResponse);
+      respondWith(new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of()));
+      await expect(client.send('method', [])).rejects.toThrow(
+        MiIORetryExhaustedError
+      );
+
+      emitPayload({ id: INITIAL_COUNTER + 1, result: ['ok'] });
+      expect(onLateResponse).toBeCalledWith(
+        { id: INITIAL_COUNTER + 1, result: ['ok'] },
+        expect.anything()
+      );
+    });
+  });
+
+  describe('close', () => {
+    it('rejects pending requests and refuses new ones', async () => {
+      const promise = client.send('method', []);
+      while (network.send.mock.calls.length < 1) {
+        await flushPromises();
+      }
+      await client.close();
+
+      await expect(promise).rejects.toThrow(MiIOClientClosedError);
+      expect(
+        waitQueue[`address:${ADDRESS}+port:${MiIOClient.DEFAULT_PORT}`]
+      ).toBeUndefined();
+      await expect(client.send('method', [])).rejects.toThrow(
+        MiIOClientClosedError
+      );
+      expect(client.isClosed).toBe(true);
+    });
+
+    it('is closed when the network is closed', async () => {
+      closeHandlers.forEach(handler => handler());
+      expect(client.isClosed).toBe(true);
+      await expect(client.getDeviceToken()).rejects.toThrow(
+        MiIOClientClosedError
+      );
+    });
+  });
+
   describe('send', () => {
     describe('handshake', () => {
       it('sends requests with correct stamp', async () => {
@@ -247,21 +391,242 @@ describe('MiIOClient', () => {
         expect(serializer.serialize).toBeCalledTimes(4);
         expect(network.send).toBeCalledTimes(4);
       });
-      function emitMockedResponse(response: MiIOResponse) {
-        deserializer.deserialize.mockReturnValueOnce(response);
-        // Normal message will be deserialized twice
-        if (response.type === 'NORMAL') {
-          deserializer.deserialize.mockReturnValueOnce(response);
+      it('rejects with typed errors when handshake times out', async () => {
+        recreateClient({
+          address: ADDRESS,
+          port: MiIOClient.DEFAULT_PORT,
+          requestTimeout: 10,
+        });
+
+        const error: MiIORetryExhaustedError = await client
+          .send('method', [])
+          .catch(e => e);
+        expect(error).toBeInstanceOf(MiIORetryExhaustedError);
+        expect(error.cause).toHaveLength(3);
+        expect(error.cause[0]).toBeInstanceOf(MiIOHandshakeError);
+        expect((error.cause[0] as MiIOHandshakeError).cause).toBeInstanceOf(
+          MiIOTimeoutError
+        );
+      });
+    });
+
+    describe('retry', () => {
+      it('performs handshake again after a timeout', async () => {
+        recreateClient({
+          address: ADDRESS,
+          port: MiIOClient.DEFAULT_PORT,
+          counter: INITIAL_COUNTER,
+          requestTimeout: 50,
+          retryPolicy: { initialDelay: 0 },
+        });
+        respondWith(
+          new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of()),
+          undefined,
+          new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of()),
+          new NormalResponse(
+            DEVICE_ID,
+            INITIAL_STAMP,
+            Buffer.from(JSON.stringify({ id: INITIAL_COUNTER + 2 }))
+          )
+        );
+
+        await client.send('method', []);
+        expect(serializer.serialize).toHaveBeenNthCalledWith(
+          3,
+          new HandshakeRequest()
+        );
+        expect(serializer.serialize).toBeCalledTimes(4);
+      });
+
+      it('rejects with checksum errors instead of timing out', async () => {
+        recreateClient({
+          address: ADDRESS,
+          port: MiIOClient.DEFAULT_PORT,
+          counter: INITIAL_COUNTER,
+          requestTimeout: 60000,
+          retryPolicy: { maxAttempts: 1 },
+        });
+        network.send
+          .mockImplementationOnce(async () => {
+            setTimeout(() =>
+              emitMockedResponse(
+                new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of())
+              )
+            );
+            return 10;
+          })
+          .mockImplementationOnce(async () => {
+            deserializer.deserialize.mockImplementationOnce(() => {
+              throw new MiIOChecksumError('Checksum failed.');
+            });
+            setTimeout(emit);
+            return 10;
+          });
+
+        const error: MiIORetryExhaustedError = await client
+          .send('method', [])
+          .catch(err => err);
+        expect(error).toBeInstanceOf(MiIORetryExhaustedError);
+        expect(error.cause[0]).toBeInstanceOf(MiIOChecksumError);
+      });
+
+      it('does not retry more than the max attempts', async () => {
+        recreateClient({
+          address: ADDRESS,
+          port: MiIOClient.DEFAULT_PORT,
+          requestTimeout: 10,
+          retryPolicy: { maxAttempts: 1 },
+        });
+        await expect(client.send('method', [])).rejects.toThrow(
+          MiIORetryExhaustedError
+        );
+        expect(network.send).toBeCalledTimes(1);
+      });
+    });
+
+    describe('abort', () => {
+      it('rejects without sending when signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+          client.send('method', [], { signal: controller.signal })
+        ).rejects.toThrow(MiIOAbortError);
+        expect(network.send).not.toBeCalled();
+      });
+
+      it('removes pending request and stops retrying once aborted', async () => {
+        const controller = new AbortController();
+        respondWith(
+          new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of())
+        );
+        const promise = client.send('method', [], {
+          signal: controller.signal,
+        });
+        while (network.send.mock.calls.length < 2) {
+          await new Promise(resolve => setTimeout(resolve, 10));
         }
-        messageHandlers.forEach(handler =>
-          handler(FAKE_PACKET.raw, {
-            address: ADDRESS,
-            family: 'IPv4',
-            port: MiIOClient.DEFAULT_PORT,
-            size: FAKE_PACKET.raw.byteLength,
+        controller.abort();
+
+        await expect(promise).rejects.toThrow(MiIOAbortError);
+        expect(
+          waitQueue[`address:${ADDRESS}+port:${MiIOClient.DEFAULT_PORT}`]
+        ).toEqual([]);
+        expect(network.send).toBeCalledTimes(2);
+      });
+    });
+
+    describe('typed methods', () => {
+      it('types params and result by method name', async () => {
+        respondWith(
+          new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of()),
+          new NormalResponse(
+            DEVICE_ID,
+            INITIAL_STAMP,
+            Buffer.from(
+              JSON.stringify({ id: INITIAL_COUNTER + 1, result: ['ok'] })
+            )
+          )
+        );
+
+        const { result }: { result: ['ok'] } = await client.send('set_power', [
+          'on',
+        ]);
+        expect(result).toEqual(['ok']);
+        const [request] = serializer.serialize.mock.calls[1];
+        expect(JSON.parse(request.data.toString())).toEqual({
+          id: INITIAL_COUNTER + 1,
+          method: 'set_power',
+          params: ['on'],
+        });
+      });
+
+      it('rejects invalid params at compile time', () => {
+        const send = () =>
+          // @ts-expect-error
+          client.send('set_power', [true]);
+        expect(send).toBeInstanceOf(Function);
+      });
+    });
+
+    describe('device errors', () => {
+      it('rejects with device error without retrying', async () => {
+        respondWith(
+          new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of()),
+          createNormalResponse({
+            id: INITIAL_COUNTER + 1,
+            error: { code: -32601, message: 'Method not found' },
           })
         );
+
+        const error: MiIODeviceError = await client
+          .send('method', [])
+          .catch(e => e);
+        expect(error).toBeInstanceOf(MiIODeviceError);
+        expect(error.code).toBe(-32601);
+        expect(error.message).toBe('Method not found');
+        expect(network.send).toBeCalledTimes(2);
+      });
+
+      it('retries retryable device errors', async () => {
+        respondWith(
+          new HandshakeResponse(DEVICE_ID, INITIAL_STAMP, Buffer.of()),
+          createNormalResponse({
+            id: INITIAL_COUNTER + 1,
+            error: { code: -9999, message: 'user ack timeout' },
+          }),
+          createNormalResponse({ id: INITIAL_COUNTER + 2, result: ['ok'] })
+        );
+
+        const response = await client.send('method', []);
+        expect(response).toEqual({ id: INITIAL_COUNTER + 2, result: ['ok'] });
+        expect(network.send).toBeCalledTimes(3);
+      });
+
+      function createNormalResponse(message: object) {
+        return new NormalResponse(
+          DEVICE_ID,
+          INITIAL_STAMP,
+          Buffer.from(JSON.stringify(message))
+        );
       }
     });
   });
+
+  function recreateClient(config: MiIOClientConfig) {
+    unsubscriber();
+    messageHandlers = [];
+    client = new MiIOClient(network, serializer, deserializer, logger, config);
+    unsubscriber = client.subscribeToMessages();
+  }
+
+  // Replies the given responses one by one for every packet sent.
+  function respondWith(...responses: (MiIOResponse | undefined)[]) {
+    network.send.mockImplementation(async () => {
+      const response = responses.shift();
+      if (response) {
+        setTimeout(() => emitMockedResponse(response));
+      }
+      return 10;
+    });
+  }
+
+  function emitMockedResponse(response: MiIOResponse) {
+    deserializer.deserialize.mockReturnValueOnce(response);
+    // Normal message will be deserialized twice
+    if (response.type === 'NORMAL') {
+      deserializer.deserialize.mockReturnValueOnce(response);
+    }
+    emit();
+  }
+
+  function emit() {
+    messageHandlers.forEach(handler =>
+      handler(FAKE_PACKET.raw, {
+        address: ADDRESS,
+        family: 'IPv4',
+        port: MiIOClient.DEFAULT_PORT,
+        size: FAKE_PACKET.raw.byteLength,
+      })
+    );
+  }
 });
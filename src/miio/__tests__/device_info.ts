@@ -0,0 +1,69 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../client';
+import { toDeviceInfo } from '../device_info';
+import { ConsoleLogger } from '../logger';
+import { RawDeviceInfo } from '../methods';
+import { MiIONetwork } from '../network';
+import { RequestSerializer, ResponseDeserializer } from '../serializer';
+
+jest.mock('dgram');
+jest.mock('../network');
+jest.mock('../serializer');
+
+const RAW_INFO: RawDeviceInfo = {
+  model: 'zhimi.airpurifier.ma4',
+  fw_ver: '2.0.7',
+  hw_ver: 'esp32',
+  mac: '28:6C:07:00:00:01',
+  life: 3600,
+  token: 'ffffffffffffffffffffffffffffffff',
+  mcu_fw_ver: '0003',
+  ap: { ssid: 'home', bssid: '00:11:22:33:44:55', rssi: -52, primary: 6 },
+  netif: { localIp: '192.168.1.20', mask: '255.255.255.0', gw: '192.168.1.1' },
+};
+
+describe('toDeviceInfo', () => {
+  it('normalizes the reply of miIO.info', () => {
+    expect(toDeviceInfo(RAW_INFO)).toEqual({
+      model: 'zhimi.airpurifier.ma4',
+      firmwareVersion: '2.0.7',
+      hardwareVersion: 'esp32',
+      mac: '28:6C:07:00:00:01',
+      life: 3600,
+      token: undefined,
+      mcuFirmwareVersion: '0003',
+      wifiFirmwareVersion: undefined,
+      wifi: { ssid: 'home', bssid: '00:11:22:33:44:55', rssi: -52 },
+      network: {
+        localIp: '192.168.1.20',
+        mask: '255.255.255.0',
+        gateway: '192.168.1.1',
+      },
+      raw: RAW_INFO,
+    });
+  });
+
+  it('keeps tokens revealed by unprovisioned devices', () => {
+    const token = '00112233445566778899aabbccddeeff';
+    expect(toDeviceInfo({ ...RAW_INFO, token }).token).toBe(token);
+  });
+});
+
+describe('MiIOClient.info', () => {
+  it('sends miIO.info', async () => {
+    const client = new MiIOClient(
+      createMockInstance(MiIONetwork),
+      createMockInstance(RequestSerializer),
+      createMockInstance(ResponseDeserializer),
+      createMockInstance(ConsoleLogger),
+      { address: '0.0.0.0', port: MiIOClient.DEFAULT_PORT }
+    );
+    const send = jest
+      .spyOn(client, 'send')
+      .mockResolvedValue({ id: 1, result: RAW_INFO, exec_time: 0 });
+
+    const info = await client.info();
+    expect(send).toBeCalledWith('miIO.info', [], undefined);
+    expect(info.model).toBe('zhimi.airpurifier.ma4');
+  });
+});
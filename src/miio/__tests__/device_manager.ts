@@ -0,0 +1,125 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../client';
+import { MiIODeviceManager } from '../device_manager';
+import { MiIOClientClosedError } from '../errors';
+import { ConsoleLogger } from '../logger';
+import { CloseHandler, MessageHandler, MiIONetwork } from '../network';
+import { createPacket } from '../tests/utils';
+
+jest.mock('dgram');
+jest.mock('../network');
+
+const TOKEN = Buffer.alloc(16, 0x12);
+
+describe('MiIODeviceManager', () => {
+  let network: jest.Mocked<MiIONetwork>;
+  let messageHandlers: MessageHandler[];
+  let closeHandlers: CloseHandler[];
+  let unsubscriber: jest.Mock;
+  let manager: MiIODeviceManager;
+  let handleMessage: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    messageHandlers = [];
+    closeHandlers = [];
+    unsubscriber = jest.fn();
+    network = createMockInstance(MiIONetwork);
+    network.addMessageHandler.mockImplementation(handler => {
+      messageHandlers.push(handler);
+      return unsubscriber;
+    });
+    network.addCloseHandler.mockImplementation(handler => {
+      closeHandlers.push(handler);
+      return unsubscriber;
+    });
+    manager = new MiIODeviceManager(network, createMockInstance(ConsoleLogger));
+    handleMessage = jest
+      .spyOn(MiIOClient.prototype, 'handleMessage')
+      .mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    handleMessage.mockRestore();
+  });
+
+  function emit(message: Buffer, address: string, port = 54321) {
+    messageHandlers.forEach(handler =>
+      handler(message, { address, port, family: 'IPv4', size: 0 })
+    );
+  }
+
+  it('creates clients sharing a single message handler', () => {
+    const client1 = manager.add({ address: '10.0.0.1', token: TOKEN });
+    const client2 = manager.add({ address: '10.0.0.2', token: TOKEN });
+    expect(client1).toBeInstanceOf(MiIOClient);
+    expect(manager.get('10.0.0.2')).toBe(client2);
+    expect(manager.size).toBe(2);
+    expect(network.addMessageHandler).toBeCalledTimes(1);
+  });
+
+  it('refuses to add the same device twice', () => {
+    manager.add({ address: '10.0.0.1', token: TOKEN });
+    expect(() => manager.add({ address: '10.0.0.1', token: TOKEN })).toThrow(
+      'has been added already'
+    );
+  });
+
+  it('routes messages to the client of the sender', () => {
+    const client1 = manager.add({ address: '10.0.0.1', token: TOKEN });
+    manager.add({ address: '10.0.0.2', token: TOKEN });
+    const message = createPacket({}).raw;
+    emit(message, '10.0.0.1');
+    expect(handleMessage).toBeCalledTimes(1);
+    expect(handleMessage.mock.instances[0]).toBe(client1);
+  });
+
+  it('routes messages by device ID when the address is unknown', () => {
+    manager.add({ address: '10.0.0.1', token: TOKEN });
+    const client2 = manager.add({ address: '10.0.0.2', token: TOKEN });
+    // Device ID of the packet created by `createPacket`.
+    client2.deviceId = 5;
+    emit(createPacket({}).raw, '10.0.0.3');
+    expect(handleMessage.mock.instances[0]).toBe(client2);
+  });
+
+  it('drops messages from unknown devices', () => {
+    manager.add({ address: '10.0.0.1', token: TOKEN });
+    emit(createPacket({}).raw, '10.0.0.3');
+    expect(handleMessage).not.toBeCalled();
+  });
+
+  it('closes the client and unsubscribes after the last client is removed', async () => {
+    const client = manager.add({ address: '10.0.0.1', token: TOKEN });
+    expect(await manager.remove('10.0.0.1')).toBe(true);
+    expect(await manager.remove('10.0.0.1')).toBe(false);
+    expect(manager.get('10.0.0.1')).toBeUndefined();
+    expect(client.isClosed).toBe(true);
+    expect(unsubscriber).toBeCalled();
+  });
+
+  it('closes clients and the network on shutdown', async () => {
+    const client = manager.add({ address: '10.0.0.1', token: TOKEN });
+    await manager.shutdown();
+    expect(manager.size).toBe(0);
+    expect(client.isClosed).toBe(true);
+    expect(unsubscriber).toBeCalled();
+    expect(network.close).toBeCalled();
+  });
+
+  it('closes every client when the network is closed', async () => {
+    const client1 = manager.add({ address: '10.0.0.1', token: TOKEN });
+    const client2 = manager.add({ address: '10.0.0.2', token: TOKEN });
+    expect(network.addCloseHandler).toBeCalledTimes(1);
+
+    closeHandlers.forEach(handler => handler());
+
+    expect(client1.isClosed).toBe(true);
+    expect(client2.isClosed).toBe(true);
+    expect(manager.size).toBe(0);
+    expect(unsubscriber).toBeCalled();
+    await expect(client1.send('method', [])).rejects.toThrow(
+      MiIOClientClosedError
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { MiIOClientClosedError } from '../errors';
+import { createMiIOClient } from '../factory';
+import { ConsoleLogger } from '../logger';
+
+jest.mock('../logger');
+
+const TOKEN = '00112233445566778899aabbccddeeff';
+
+describe('createMiIOClient', () => {
+  // Plays a device which never replies.
+  let peer: Socket;
+
+  beforeEach(async () => {
+    peer = createSocket('udp4');
+    await new Promise<void>(resolve => peer.bind(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => peer.close(resolve));
+  });
+
+  it('rejects pending requests and closes the socket on close', async () => {
+    const { port } = peer.address() as AddressInfo;
+    const received = new Promise(resolve => peer.once('message', resolve));
+    const client = createMiIOClient({
+      address: '127.0.0.1',
+      port,
+      token: TOKEN,
+      logger: new ConsoleLogger(),
+      timeouts: { request: 60000 },
+    });
+    const pending = client.getDeviceToken();
+    await received;
+    await client.close();
+    await expect(pending).rejects.toBeInstanceOf(MiIOClientClosedError);
+    expect(client.isClosed).toBe(true);
+    await expect(client.getDeviceToken()).rejects.toBeInstanceOf(
+      MiIOClientClosedError
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../client';
+import { MiIODeviceError, MiotPropertyError } from '../errors';
+import { ConsoleLogger } from '../logger';
+import { MiIONetwork } from '../network';
+import { RequestSerializer, ResponseDeserializer } from '../serializer';
+import { toMiotPropertyResults } from '../miot';
+
+jest.mock('dgram');
+jest.mock('../network');
+jest.mock('../serializer');
+
+describe('toMiotPropertyResults', () => {
+  it('matches results by did and converts failures to errors', () => {
+    const results = toMiotPropertyResults(
+      [
+        { siid: 2, piid: 1 },
+        { siid: 2, piid: 2 },
+      ],
+      [
+        { did: '2-2', siid: 2, piid: 2, code: -4001 },
+        { did: '2-1', siid: 2, piid: 1, code: 0, value: true },
+      ]
+    );
+    expect(results[0]).toEqual({ siid: 2, piid: 1, code: 0, value: true });
+    expect(results[1].code).toBe(-4001);
+    expect(results[1].error).toBeInstanceOf(MiotPropertyError);
+    expect(results[1].error?.message).toBe(
+      'Property is not readable. (siid: 2, piid: 2)'
+    );
+  });
+
+  it('reports missing results as not found', () => {
+    const [result] = toMiotPropertyResults([{ siid: 3, piid: 1 }], []);
+    expect(result.code).toBe(-4003);
+    expect(result.error).toBeInstanceOf(MiotPropertyError);
+  });
+});
+
+describe('MiIOClient MIoT methods', () => {
+  let client: MiIOClient;
+  let send: jest.SpyInstance;
+
+  beforeEach(() => {
+    client = new MiIOClient(
+      createMockInstance(MiIONetwork),
+      createMockInstance(RequestSerializer),
+      createMockInstance(ResponseDeserializer),
+      createMockInstance(ConsoleLogger),
+      { address: '0.0.0.0', port: MiIOClient.DEFAULT_PORT }
+    );
+    send = jest.spyOn(client, 'send');
+  });
+
+  function mockResult(result: unknown) {
+    send.mockResolvedValueOnce({ id: 1, result, exec_time: 0 });
+  }
+
+  it('gets properties', async () => {
+    mockResult([{ did: '2-1', siid: 2, piid: 1, code: 0, value: 'on' }]);
+    const results = await client.getProperties([{ siid: 2, piid: 1 }]);
+    expect(send).toBeCalledWith(
+      'get_properties',
+      [{ did: '2-1', siid: 2, piid: 1 }],
+      undefined
+    );
+    expect(results).toEqual([{ siid: 2, piid: 1, code: 0, value: 'on' }]);
+  });
+
+  it('sets properties', async () => {
+    mockResult([{ did: '2-1', siid: 2, piid: 1, code: -4005 }]);
+    const [result] = await client.setProperties([
+      { siid: 2, piid: 1, value: 10 },
+    ]);
+    expect(send).toBeCalledWith(
+      'set_properties',
+      [{ did: '2-1', siid: 2, piid: 1, value: 10 }],
+      undefined
+    );
+    expect(result.error?.code).toBe(-4005);
+  });
+
+  it('calls actions', async () => {
+    mockResult({ code: 0, out: [1] });
+    expect(await client.callAction(5, 1, ['arg'])).toEqual([1]);
+    expect(send).toBeCalledWith(
+      'action',
+      { did: 'call-5-1', siid: 5, aiid: 1, in: ['arg'] },
+      undefined
+    );
+  });
+
+  it('rejects when actions fail', async () => {
+    mockResult({ code: -4006 });
+    await expect(client.callAction(5, 1)).rejects.toThrow(MiIODeviceError);
+  });
+});
@@ -0,0 +1,107 @@
+import { join } from 'path';
+import { MiotSpecValidationError } from '../errors';
+import { MiotSpec } from '../miot_spec';
+
+const SPEC_PATH = join(__dirname, '../tests/fixtures/air_purifier.json');
+
+describe('MiotSpec', () => {
+  let spec: MiotSpec;
+
+  beforeEach(async () => {
+    spec = await MiotSpec.load(SPEC_PATH);
+  });
+
+  it('indexes services, properties, actions and events by name', () => {
+    expect(spec.type).toBe(
+      'urn:miot-spec-v2:device:air-purifier:0000A007:zhimi-ma4:1'
+    );
+    expect(spec.services.map(({ name }) => name)).toEqual([
+      'device-information',
+      'air-purifier',
+      'environment',
+      'filter',
+    ]);
+    expect(spec.getProperty('air-purifier:mode')).toMatchObject({
+      siid: 2,
+      piid: 5,
+      format: 'uint8',
+    });
+    expect(spec.getProperty('air-purifier:fan-level').valueRange).toEqual({
+      min: 1,
+      max: 3,
+      step: 1,
+    });
+    expect(spec.getAction('air-purifier:toggle')).toMatchObject({
+      siid: 2,
+      aiid: 1,
+    });
+    expect(spec.getEvent('filter:filter-exhausted').arguments[0].name).toBe(
+      'filter:filter-life-level'
+    );
+    expect(spec.findProperty({ siid: 3, piid: 4 })?.name).toBe(
+      'environment:pm2.5-density'
+    );
+  });
+
+  it('throws on unknown names', () => {
+    expect(() => spec.getProperty('fan:mode')).toThrow(MiotSpecValidationError);
+  });
+
+  it('suffixes services of the same type with their iid', () => {
+    const service = spec.document.services[1];
+    const duplicated = new MiotSpec({
+      ...spec.document,
+      services: [service, { ...service, iid: 3 }],
+    });
+    expect(duplicated.getProperty('air-purifier-3:on').siid).toBe(3);
+  });
+
+  describe('validate', () => {
+    it('accepts valid values', () => {
+      expect(() => spec.validate('air-purifier:on', true)).not.toThrow();
+      expect(() => spec.validate('air-purifier:mode', 2)).not.toThrow();
+      expect(() => spec.validate('air-purifier:fan-level', 3)).not.toThrow();
+      expect(() =>
+        spec.validate('device-information:manufacturer', 'zhimi')
+      ).not.toThrow();
+    });
+
+    it('rejects values of wrong format', () => {
+      expect(() => spec.validate('air-purifier:on', 1)).toThrow('boolean');
+      expect(() => spec.validate('air-purifier:mode', 1.5)).toThrow('integer');
+      expect(() => spec.validate('air-purifier:mode', 256)).toThrow('range');
+    });
+
+    it('rejects values out of value range', () => {
+      expect(() => spec.validate('air-purifier:fan-level', 4)).toThrow(
+        'between 1 and 3'
+      );
+    });
+
+    it('rejects values out of value list', () => {
+      expect(() => spec.validate('air-purifier:mode', 3)).toThrow(
+        '0 (Auto), 1 (Sleep), 2 (Favorite)'
+      );
+    });
+  });
+
+  describe('toPropertyValues', () => {
+    it('converts named values', () => {
+      expect(
+        spec.toPropertyValues({
+          'air-purifier:on': true,
+          'air-purifier:mode': 1,
+        })
+      ).toEqual([
+        { siid: 2, piid: 2, value: true },
+        { siid: 2, piid: 5, value: 1 },
+      ]);
+    });
+
+    it('rejects read-only properties', () => {
+      expect(() =>
+        spec.toPropertyValues({ 'filter:filter-life-level': 10 })
+      ).toThrow('not writable');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Socket } from 'dgram';
 import { ConsoleLogger, Logger, LogLevel } from '../logger';
 import { MiIONetwork } from '../network';
+import { HEADER_BYTES, MAGIC_BUFFER, PacketImpl } from '../packet';
 import { createPacket } from '../tests/utils';
 
 jest.mock('dgram');
@@ -16,6 +17,12 @@ function findHandler(fn: jest.Mocked<Socket>['on'], message: string) {
   return args[1] as Function;
 }
 
+async function flushMicrotasks() {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
 describe('MiIONetwork', () => {
   let logger: Logger;
   let socket: jest.Mocked<Socket>;
@@ -59,6 +66,117 @@ describe('MiIONetwork', () => {
       expect(ensureReady).toHaveBeenCalledTimes(1);
       expect(socket.close).toHaveBeenCalled();
     });
+
+    it('closes socket only once', async () => {
+      jest.spyOn(network, 'ensureReady').mockResolvedValue();
+      socket.close.mockImplementation((cb?: () => void) => cb?.());
+      await Promise.all([network.close(), network.close()]);
+      expect(socket.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies close handlers', async () => {
+      jest.spyOn(network, 'ensureReady').mockResolvedValue();
+      socket.close.mockImplementation((cb?: () => void) => cb?.());
+      const handler = jest.fn();
+      const removedHandler = jest.fn();
+      network.addCloseHandler(handler);
+      network.addCloseHandler(removedHandler)();
+      await network.close();
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(removedHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('discover', () => {
+    function createHandshakeReply(deviceId: number, checksum: Buffer) {
+      return new PacketImpl(
+        MAGIC_BUFFER,
+        HEADER_BYTES,
+        Buffer.alloc(4),
+        deviceId,
+        100,
+        checksum,
+        Buffer.of()
+      ).raw;
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers('modern');
+      jest.spyOn(network, 'ensureReady').mockResolvedValue();
+      socket.send.mockImplementation(
+        (_1, _2, _3, cb?: (err: null | Error, bytesSent: number) => void) => {
+          cb?.(null, 32);
+        }
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('broadcasts a handshake packet and collects replies', async () => {
+      const onDevice = jest.fn();
+      let handler: Function | undefined;
+      jest.spyOn(network, 'addMessageHandler').mockImplementation(h => {
+        handler = h;
+        return () => undefined;
+      });
+      const promise = network.discover({ timeout: 1000, onDevice });
+      await flushMicrotasks();
+
+      const token = Buffer.alloc(16, 0x12);
+      handler?.(createHandshakeReply(1, Buffer.alloc(16, 0xff)), {
+        address: '192.168.1.2',
+        port: 54321,
+      });
+      handler?.(createHandshakeReply(2, token), {
+        address: '192.168.1.3',
+        port: 54321,
+      });
+      // Duplicated replies are ignored.
+      handler?.(createHandshakeReply(2, token), {
+        address: '192.168.1.3',
+        port: 54321,
+      });
+      jest.advanceTimersByTime(1000);
+
+      expect(await promise).toEqual([
+        {
+          address: '192.168.1.2',
+          port: 54321,
+          deviceId: 1,
+          stamp: 100,
+          token: undefined,
+        },
+        { address: '192.168.1.3', port: 54321, deviceId: 2, stamp: 100, token },
+      ]);
+      expect(onDevice).toBeCalledTimes(2);
+      expect(socket.send).toBeCalledWith(
+        Buffer.concat([
+          Buffer.of(0x21, 0x31, 0x00, 32),
+          Buffer.alloc(28, 0xff),
+        ]),
+        54321,
+        '255.255.255.255',
+        expect.any(Function)
+      );
+    });
+
+    it('sends to the given broadcast address', async () => {
+      const promise = network.discover({
+        timeout: 10,
+        broadcastAddress: '192.168.1.255',
+      });
+      await flushMicrotasks();
+      jest.advanceTimersByTime(10);
+      expect(await promise).toEqual([]);
+      expect(socket.send).toBeCalledWith(
+        expect.any(Buffer),
+        54321,
+        '192.168.1.255',
+        expect.any(Function)
+      );
+    });
   });
 
   describe('addMessageListener', () => {
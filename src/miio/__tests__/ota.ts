@@ -0,0 +1,178 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmdirSync, unlinkSync, writeFileSync } from 'fs';
+import { get } from 'http';
+import createMockInstance from 'jest-create-mock-instance';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MiIOClient } from '../client';
+import {
+  MiIODeviceError,
+  MiIOFirmwareUpdateError,
+  MiIOTimeoutError,
+} from '../errors';
+import { RawOtaRequest } from '../methods';
+import { OtaState, updateFirmware } from '../ota';
+
+function download(url: string) {
+  return new Promise<Buffer>((resolve, reject) => {
+    get(url, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve(Buffer.concat(chunks)));
+    }).on('error', reject);
+  });
+}
+
+// Downloads the image like a device would, then goes through the states one
+// poll at a time.
+class SimulatedDevice {
+  image: Buffer | undefined;
+  private steps: [OtaState, number][] = [];
+  private current: [OtaState, number] = [OtaState.IDLE, 0];
+  // Polls failing with a timeout while installing, as if rebooting.
+  unreachablePolls = 0;
+
+  async handle(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+    case 'miIO.ota': {
+      const { app_url, file_md5 } = params as RawOtaRequest;
+      this.image = await download(app_url);
+      const checksum = createHash('md5').update(this.image).digest('hex');
+      this.steps =
+          checksum === file_md5
+            ? [
+              [OtaState.DOWNLOADING, 50],
+              [OtaState.DOWNLOADING, 100],
+              [OtaState.INSTALLING, 100],
+              [OtaState.IDLE, 0],
+            ]
+            : [[OtaState.FAILED, 0]];
+      return ['ok'];
+    }
+    case 'miIO.get_ota_state':
+      if (
+        this.current[0] === OtaState.INSTALLING &&
+          this.unreachablePolls > 0
+      ) {
+        this.unreachablePolls--;
+        throw new MiIOTimeoutError(100);
+      }
+      this.current = this.steps.shift() ?? this.current;
+      return [this.current[0]];
+    case 'miIO.get_ota_progress':
+      return [this.current[1]];
+    default:
+      throw new MiIODeviceError(-32601, 'Method not found');
+    }
+  }
+}
+
+describe('updateFirmware', () => {
+  const IMAGE = Buffer.from('firmware image');
+  let directory: string;
+  let firmwarePath: string;
+  let client: jest.Mocked<MiIOClient>;
+  let device: SimulatedDevice;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ota-'));
+    firmwarePath = join(directory, 'firmware.bin');
+    writeFileSync(firmwarePath, IMAGE);
+    device = new SimulatedDevice();
+    client = createMockInstance(MiIOClient);
+    client.send.mockImplementation(async (method, params) => ({
+      id: 1,
+      result: (await device.handle(method, params)) as never,
+      exec_time: 0,
+    }));
+  });
+
+  afterEach(() => {
+    unlinkSync(firmwarePath);
+    rmdirSync(directory);
+  });
+
+  it('serves the image and reports the progress until done', async () => {
+    const onProgress = jest.fn();
+
+    await updateFirmware(client, firmwarePath, {
+      host: '127.0.0.1',
+      pollInterval: 1,
+      onProgress,
+    });
+
+    expect(device.image).toEqual(IMAGE);
+    expect(client.send).toBeCalledWith(
+      'miIO.ota',
+      {
+        mode: 'normal',
+        install: '1',
+        app_url: expect.stringMatching(
+          /^http:\/\/127\.0\.0\.1:\d+\/firmware\.bin$/
+        ),
+        file_md5: createHash('md5').update(IMAGE).digest('hex'),
+        proc: 'dnld install',
+      },
+      { signal: undefined }
+    );
+    expect(onProgress.mock.calls).toEqual([
+      [{ state: OtaState.DOWNLOADING, progress: 50 }],
+      [{ state: OtaState.DOWNLOADING, progress: 100 }],
+      [{ state: OtaState.INSTALLING, progress: 100 }],
+      [{ state: OtaState.IDLE, progress: 0 }],
+    ]);
+  });
+
+  it('keeps polling while the device reboots', async () => {
+    device.unreachablePolls = 2;
+
+    await updateFirmware(client, firmwarePath, {
+      host: '127.0.0.1',
+      pollInterval: 1,
+    });
+
+    expect(device.unreachablePolls).toBe(0);
+  });
+
+  it('rejects when the device fails to update', async () => {
+    client.send.mockImplementation(async (method, params) => ({
+      id: 1,
+      result: (await device.handle(
+        method,
+        method === 'miIO.ota'
+          ? { ...(params as RawOtaRequest), file_md5: 'invalid' }
+          : params
+      )) as never,
+      exec_time: 0,
+    }));
+
+    await expect(
+      updateFirmware(client, firmwarePath, {
+        host: '127.0.0.1',
+        pollInterval: 1,
+      })
+    ).rejects.toThrow(MiIOFirmwareUpdateError);
+  });
+
+  it('rejects when the update does not finish in time', async () => {
+    client.send.mockImplementation(async (method, params) => ({
+      id: 1,
+      result: (method === 'miIO.ota'
+        ? await device.handle(method, params)
+        : [
+          method === 'miIO.get_ota_state' ? OtaState.DOWNLOADING : 10,
+        ]) as never,
+      exec_time: 0,
+    }));
+
+    await expect(
+      updateFirmware(client, firmwarePath, {
+        host: '127.0.0.1',
+        pollInterval: 1,
+        timeout: 20,
+      })
+    ).rejects.toThrow(
+      new MiIOFirmwareUpdateError('Update not finished after 20ms.')
+    );
+  });
+});
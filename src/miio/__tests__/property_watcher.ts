@@ -0,0 +1,137 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../client';
+import { ConsoleLogger } from '../logger';
+import { PropertyPoller } from '../property_watcher';
+
+jest.mock('dgram');
+
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('PropertyPoller', () => {
+  let client: jest.Mocked<MiIOClient>;
+  let poller: PropertyPoller;
+
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    client = createMockInstance(MiIOClient);
+    poller = new PropertyPoller(client, createMockInstance(ConsoleLogger));
+  });
+
+  afterEach(() => {
+    poller.stopAll();
+    jest.useRealTimers();
+  });
+
+  function mockResult(result: unknown[]) {
+    client.send.mockResolvedValueOnce({ id: 1, result, exec_time: 0 });
+  }
+
+  async function tick(timeout = 0) {
+    jest.advanceTimersByTime(timeout);
+    await flushPromises();
+  }
+
+  it('emits changes with old and new values', async () => {
+    const watcher = poller.watch<{ power: string; mode: string }>(
+      ['power', 'mode'],
+      { interval: 1000 }
+    );
+    const onChange = jest.fn();
+    watcher.on('change', onChange);
+
+    mockResult(['on', 'auto']);
+    await tick();
+    expect(client.send).toBeCalledWith('get_prop', ['power', 'mode']);
+    expect(onChange).toBeCalledWith({
+      property: 'power',
+      oldValue: undefined,
+      newValue: 'on',
+    });
+    expect(onChange).toBeCalledTimes(2);
+
+    mockResult(['off', 'auto']);
+    await tick(1000);
+    expect(onChange).toBeCalledTimes(3);
+    expect(onChange).toHaveBeenLastCalledWith({
+      property: 'power',
+      oldValue: 'on',
+      newValue: 'off',
+    });
+    expect(watcher.values).toEqual({ power: 'off', mode: 'auto' });
+  });
+
+  it('merges watchers into one request', async () => {
+    const onPowerChange = jest.fn();
+    const onModeChange = jest.fn();
+    poller.watch(['power'], { interval: 1000 }).on('change', onPowerChange);
+    poller.watch(['power', 'mode']).on('change', onModeChange);
+
+    mockResult(['on', 'auto']);
+    await tick();
+    expect(client.send).toBeCalledTimes(1);
+    expect(client.send).toBeCalledWith('get_prop', ['power', 'mode']);
+    expect(onPowerChange).toBeCalledTimes(1);
+    expect(onModeChange).toBeCalledTimes(2);
+  });
+
+  it('backs off while the device is offline', async () => {
+    const watcher = poller.watch(['power'], { interval: 1000 });
+    const onOffline = jest.fn();
+    const onOnline = jest.fn();
+    watcher.on('offline', onOffline);
+    watcher.on('online', onOnline);
+
+    client.send.mockRejectedValueOnce(new Error('offline'));
+    await tick();
+    expect(onOffline).toBeCalledTimes(1);
+
+    client.send.mockRejectedValueOnce(new Error('offline'));
+    await tick(1000);
+    // The interval is doubled after the first failure.
+    expect(client.send).toBeCalledTimes(1);
+    await tick(1000);
+    expect(client.send).toBeCalledTimes(2);
+    expect(onOffline).toBeCalledTimes(1);
+
+    mockResult(['on']);
+    await tick(4000);
+    expect(client.send).toBeCalledTimes(3);
+    expect(onOnline).toBeCalledTimes(1);
+  });
+
+  it('stops polling once every watcher stops', async () => {
+    const watcher = poller.watch(['power'], { interval: 1000 });
+    mockResult(['on']);
+    await tick();
+    watcher.stop();
+    await tick(5000);
+    expect(client.send).toBeCalledTimes(1);
+  });
+
+  it('reads MIoT properties by did', async () => {
+    const watcher = poller.watch(['2-1', '2-2'], {
+      interval: 1000,
+      method: 'get_properties',
+    });
+    const onChange = jest.fn();
+    watcher.on('change', onChange);
+    client.getProperties.mockResolvedValueOnce([
+      { siid: 2, piid: 1, code: 0, value: true },
+      { siid: 2, piid: 2, code: -4001 },
+    ]);
+    await tick();
+
+    expect(client.getProperties).toBeCalledWith([
+      { siid: 2, piid: 1 },
+      { siid: 2, piid: 2 },
+    ]);
+    expect(client.send).not.toBeCalled();
+    // Failed properties are left out.
+    expect(onChange).toBeCalledTimes(1);
+    expect(watcher.values).toEqual({ '2-1': true });
+  });
+});
@@ -0,0 +1,169 @@
+import createMockInstance from 'jest-create-mock-instance';
+import { MiIOClient } from '../client';
+import {
+  MiIOProvisioningError,
+  MiIORetryExhaustedError,
+  MiIOTimeoutError,
+} from '../errors';
+import { createMiIOClient } from '../factory';
+import { ConsoleLogger } from '../logger';
+import { MiIONetwork } from '../network';
+import { provisionDevice } from '../provisioning';
+
+jest.mock('dgram');
+jest.mock('../factory');
+jest.mock('../logger');
+jest.mock('../network');
+
+describe('provisionDevice', () => {
+  const ADDRESS = '192.168.8.1';
+  const TOKEN = Buffer.alloc(16, 0x12);
+  let probe: jest.Mocked<MiIOClient>;
+  let client: jest.Mocked<MiIOClient>;
+  const logger = new ConsoleLogger();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    probe = createMockInstance(MiIOClient);
+    client = createMockInstance(MiIOClient);
+    (createMiIOClient as jest.Mock)
+      .mockReturnValueOnce(probe)
+      .mockReturnValueOnce(client);
+    probe.getDeviceToken.mockResolvedValue(TOKEN);
+    client.send.mockResolvedValue({ id: 1, result: ['ok'], exec_time: 0 });
+    client.deviceId = 42;
+  });
+
+  it('configures the router and waits for the device to leave', async () => {
+    client.getDeviceToken
+      .mockResolvedValueOnce(TOKEN)
+      .mockRejectedValueOnce(new MiIOTimeoutError(2000));
+
+    expect(
+      await provisionDevice({
+        ssid: 'home',
+        password: 'secret',
+        address: ADDRESS,
+        config: { country_domain: 'de' },
+        probeInterval: 0,
+        logger,
+      })
+    ).toEqual({ address: ADDRESS, deviceId: 42, token: TOKEN });
+    expect(createMiIOClient).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ address: ADDRESS, token: TOKEN })
+    );
+    expect(client.send).toBeCalledWith(
+      'miIO.config_router',
+      { country_domain: 'de', ssid: 'home', passwd: 'secret', uid: 0 },
+      { signal: undefined }
+    );
+    expect(client.getDeviceToken).toBeCalledTimes(2);
+    expect(probe.close).toBeCalled();
+    expect(client.close).toBeCalled();
+  });
+
+  it('sends the router config only once', async () => {
+    client.send.mockRejectedValue(
+      new MiIORetryExhaustedError([new MiIOTimeoutError(2000)])
+    );
+    client.getDeviceToken.mockRejectedValue(new MiIOTimeoutError(2000));
+
+    expect(
+      await provisionDevice({
+        ssid: 'home',
+        password: 'secret',
+        address: ADDRESS,
+        logger,
+      })
+    ).toEqual({ address: ADDRESS, deviceId: 42, token: TOKEN });
+    expect(createMiIOClient).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ retryPolicy: { maxAttempts: 1 } })
+    );
+    expect(client.send).toBeCalledTimes(1);
+  });
+
+  it('treats a lost link to the access point as drop-off', async () => {
+    const error = Object.assign(new Error('send ENETUNREACH'), {
+      code: 'ENETUNREACH',
+    });
+    client.getDeviceToken.mockRejectedValue(error);
+
+    expect(
+      await provisionDevice({
+        ssid: 'home',
+        password: 'secret',
+        address: ADDRESS,
+        logger,
+      })
+    ).toEqual({ address: ADDRESS, deviceId: 42, token: TOKEN });
+  });
+
+  it('rejects other errors while waiting for the drop-off', async () => {
+    const error = new Error('unexpected');
+    client.getDeviceToken.mockRejectedValue(error);
+
+    await expect(
+      provisionDevice({
+        ssid: 'home',
+        password: 'secret',
+        address: ADDRESS,
+        logger,
+      })
+    ).rejects.toBe(error);
+  });
+
+  it('rejects devices hiding their token', async () => {
+    probe.getDeviceToken.mockResolvedValue(undefined);
+
+    await expect(
+      provisionDevice({
+        ssid: 'home',
+        password: 'secret',
+        address: ADDRESS,
+        logger,
+      })
+    ).rejects.toThrow(MiIOProvisioningError);
+    expect(createMiIOClient).toBeCalledTimes(1);
+    expect(probe.close).toBeCalled();
+  });
+
+  it('rejects when the device stays on its access point', async () => {
+    client.getDeviceToken.mockResolvedValue(TOKEN);
+
+    await expect(
+      provisionDevice({
+        ssid: 'home',
+        password: 'wrong',
+        address: ADDRESS,
+        dropTimeout: 50,
+        probeInterval: 10,
+        logger,
+      })
+    ).rejects.toThrow(MiIOProvisioningError);
+    expect(client.close).toBeCalled();
+  });
+
+  it('looks up the device when the address is missing', async () => {
+    jest
+      .mocked(MiIONetwork.prototype.discover)
+      .mockResolvedValue([
+        { address: '192.168.13.1', port: 54321, deviceId: 42, stamp: 1 },
+      ]);
+    client.getDeviceToken.mockRejectedValue(new MiIOTimeoutError(2000));
+
+    const { address } = await provisionDevice({
+      ssid: 'home',
+      password: 'secret',
+      logger,
+    });
+
+    expect(address).toBe('192.168.13.1');
+    expect(createMiIOClient).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ address: '192.168.13.1' })
+    );
+    expect(MiIONetwork.prototype.close).toBeCalled();
+  });
+});
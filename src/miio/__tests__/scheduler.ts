@@ -0,0 +1,94 @@
+import { MiIOAbortError, MiIOQueueOverflowError } from '../errors';
+import { RequestScheduler } from '../scheduler';
+
+function createDeferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+  it('runs one task at a time by default', async () => {
+    const scheduler = new RequestScheduler();
+    const first = createDeferred<number>();
+    const second = jest.fn().mockResolvedValue(2);
+
+    const firstPromise = scheduler.schedule(() => first.promise);
+    const secondPromise = scheduler.schedule(second);
+    await flushPromises();
+    expect(second).not.toBeCalled();
+
+    first.resolve(1);
+    expect(await firstPromise).toBe(1);
+    expect(await secondPromise).toBe(2);
+  });
+
+  it('runs tasks concurrently up to max in flight', async () => {
+    const scheduler = new RequestScheduler({ maxInFlight: 2 });
+    const tasks = [jest.fn(), jest.fn(), jest.fn()].map(fn =>
+      fn.mockReturnValue(new Promise(() => undefined))
+    );
+    tasks.forEach(task => scheduler.schedule(task));
+    await flushPromises();
+    expect(tasks[0]).toBeCalled();
+    expect(tasks[1]).toBeCalled();
+    expect(tasks[2]).not.toBeCalled();
+  });
+
+  it('runs tasks with higher priority first', async () => {
+    const scheduler = new RequestScheduler();
+    const blocker = createDeferred<void>();
+    const order: string[] = [];
+    scheduler.schedule(() => blocker.promise);
+    const promises = [
+      scheduler.schedule(async () => order.push('low')),
+      scheduler.schedule(async () => order.push('high'), { priority: 1 }),
+      scheduler.schedule(async () => order.push('low2')),
+    ];
+    blocker.resolve();
+    await Promise.all(promises);
+    expect(order).toEqual(['high', 'low', 'low2']);
+  });
+
+  it('waits for the min interval between tasks', async () => {
+    jest.useFakeTimers('modern');
+    try {
+      const scheduler = new RequestScheduler({ minInterval: 100 });
+      const second = jest.fn().mockResolvedValue(undefined);
+      await scheduler.schedule(async () => undefined);
+      scheduler.schedule(second);
+      await Promise.resolve();
+      expect(second).not.toBeCalled();
+
+      jest.advanceTimersByTime(100);
+      expect(second).toBeCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects when the queue is full', async () => {
+    const scheduler = new RequestScheduler({ maxQueueLength: 1 });
+    scheduler.schedule(() => new Promise(() => undefined));
+    scheduler.schedule(() => Promise.resolve());
+    await expect(scheduler.schedule(() => Promise.resolve())).rejects.toThrow(
+      MiIOQueueOverflowError
+    );
+  });
+
+  it('removes aborted tasks from the queue', async () => {
+    const scheduler = new RequestScheduler();
+    const controller = new AbortController();
+    const task = jest.fn().mockResolvedValue(undefined);
+    scheduler.schedule(() => new Promise(() => undefined));
+    const promise = scheduler.schedule(task, { signal: controller.signal });
+    expect(scheduler.pendingCount).toBe(1);
+
+    controller.abort();
+    await expect(promise).rejects.toThrow(MiIOAbortError);
+    expect(scheduler.pendingCount).toBe(0);
+    expect(task).not.toBeCalled();
+  });
+});
@@ -6,6 +6,7 @@ import {
   PacketImpl,
 } from '../packet';
 import { RequestSerializer, ResponseDeserializer } from '../serializer';
+import { MiIOChecksumError, MiIOPacketFormatError } from '../errors';
 
 const TOKEN = Buffer.from('12345678901234567890123456789012', 'hex');
 
@@ -79,6 +80,7 @@ describe('PacketImpl', () => {
       0xfb, 0xde, 0xf9, 0xec,
       0x36, 0x98, 0xcb, 0x8f,
     );
+    expect(() => PacketImpl.from(buffer)).toThrow(MiIOPacketFormatError);
     expect(() => PacketImpl.from(buffer)).toThrow('magic number');
   });
 
@@ -102,6 +104,12 @@ describe('PacketImpl', () => {
     );
     expect(() => PacketImpl.from(buffer)).toThrow('Packet length');
   });
+
+  it('throws error when buffer is shorter than header', () => {
+    expect(() => PacketImpl.from(Buffer.of(0x21, 0x31))).toThrow(
+      MiIOPacketFormatError
+    );
+  });
 });
 
 describe('ResponseDeserializer', () => {
@@ -131,6 +139,66 @@ describe('ResponseDeserializer', () => {
     expect(response).toEqual(new HandshakeResponse(5, 16, Buffer.of()));
   });
 
+  it('exposes the token from handshake packets of unprovisioned devices', () => {
+    // prettier-ignore
+    const packet = PacketImpl.from(Buffer.of(
+      0x21, 0x31, 0x00, 32,
+      // Unknown
+      0x00, 0x00, 0x00, 0x00,
+      // Device ID: 5
+      0x00, 0x00, 0x00, 0x05,
+      // Stamp: 16
+      0x00, 0x00, 0x00, 0x10,
+      // Token
+      0x12, 0x34, 0x56, 0x78,
+      0x90, 0x12, 0x34, 0x56,
+      0x78, 0x90, 0x12, 0x34,
+      0x56, 0x78, 0x90, 0x12,
+    ));
+    const response = deserializer.deserialize(packet);
+    expect(response).toEqual(new HandshakeResponse(5, 16, Buffer.of(), TOKEN));
+    expect((response as HandshakeResponse).isTokenHidden).toBe(false);
+  });
+
+  it('marks zeroed handshake token as hidden', () => {
+    const packet = PacketImpl.from(
+      Buffer.concat([
+        Buffer.of(0x21, 0x31, 0x00, 32),
+        Buffer.alloc(4),
+        Buffer.of(0x00, 0x00, 0x00, 0x05),
+        Buffer.of(0x00, 0x00, 0x00, 0x10),
+        Buffer.alloc(16),
+      ])
+    );
+    const response = deserializer.deserialize(packet) as HandshakeResponse;
+    expect(response.type).toBe('HANDSHAKE');
+    expect(response.isTokenHidden).toBe(true);
+  });
+
+  it('throws checksum error when checksum mismatch', () => {
+    // prettier-ignore
+    const packet = PacketImpl.from(Buffer.of(
+      0x21, 0x31, 0x00, 48,
+      // Unknown
+      0x00, 0x00, 0x00, 0x00,
+      // Device ID: 5
+      0x00, 0x00, 0x00, 0x05,
+      // Stamp: 16
+      0x00, 0x00, 0x00, 0x10,
+      // Checksum
+      0x00, 0x00, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00,
+      // Data
+      0x79, 0x91, 0x6f, 0xb5,
+      0x31, 0x1e, 0x5d, 0x8c,
+      0xfb, 0xde, 0xf9, 0xec,
+      0x36, 0x98, 0xcb, 0x8f,
+    ));
+    expect(() => deserializer.deserialize(packet)).toThrow(MiIOChecksumError);
+  });
+
   it('parses normal packet correctly', () => {
     // prettier-ignore
     const packet = PacketImpl.from(Buffer.of(
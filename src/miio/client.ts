@@ -1,16 +1,53 @@
-import { MiIONetwork } from './network';
+import { RemoteInfo } from 'dgram';
+import { EventEmitter } from 'events';
+import { MiIONetwork, Unsubscriber } from './network';
 import { remove } from '../utils/array_utils';
 import {
   HandshakeRequest,
   MiIORequest,
+  MiIOResponse,
   NormalRequest,
   PacketImpl,
 } from './packet';
 import { RequestSerializer, ResponseDeserializer } from './serializer';
 import { Logger } from './logger';
-import { retry } from '../utils/retry';
+import { RequestScheduler, SchedulerConfig } from './scheduler';
+import {
+  PropertyPoller,
+  PropertyWatcher,
+  WatchOptions,
+} from './property_watcher';
+import { retry, RetryPolicy } from '../utils/retry';
+import { delay, throwIfAborted } from '../utils/promise_utils';
+import {
+  MiIOAbortError,
+  MiIOClientClosedError,
+  MiIOChecksumError,
+  MiIODeviceError,
+  MiIOHandshakeError,
+  MiIOPacketFormatError,
+  MiIOTimeoutError,
+  getMiotErrorMessage,
+} from './errors';
+import {
+  MiotPropertyId,
+  MiotPropertyResult,
+  MiotPropertyValue,
+  toMiotDid,
+  toMiotPropertyResults,
+} from './miot';
+import {
+  isDeviceEvent,
+  MessageMetadata,
+  MiIOClientEvents,
+  MiIOMessage,
+} from './events';
+import { MethodParams, MethodResult } from './methods';
+import { DeviceInfo, toDeviceInfo } from './device_info';
 
 const DEFAULT_TIMEOUT = 10000;
+// Number of timed out or aborted request IDs kept to detect late responses.
+const MAX_EXPIRED_REQUEST_IDS = 32;
 export interface RequestData<T> {
   id: number;
   method: string;
@@ -23,6 +60,16 @@ export interface SimpleResponseSuccess<T> {
   exec_time: number;
 }
 
+export interface SimpleResponseError {
+  id: number;
+  error: {
+    code: number;
+    message: string;
+  };
+}
+
+export type SimpleResponse<T> = SimpleResponseSuccess<T> | SimpleResponseError;
+
 export interface WaitingRequest {
   requestId?: number;
   timeout: NodeJS.Timeout;
@@ -30,10 +77,59 @@ export interface WaitingRequest {
   reject: (err: Error) => void;
 }
 
-const delay = (timeout: number) => new Promise(resolve => setTimeout(resolve, timeout));
+export interface ClientRetryPolicy extends RetryPolicy {
+  // Whether the handshake should be performed again before the next attempt.
+  shouldInvalidateHandshake: (err: Error) => boolean;
+}
+
+export interface MiIOClientConfig {
+  address: string;
+  port: number;
+  requestTimeout?: number;
+  handshakeTimeout?: number;
+  counter?: number;
+  retryPolicy?: Partial<ClientRetryPolicy>;
+  scheduler?: Partial<SchedulerConfig>;
+}
+
+const shouldInvalidateHandshake = (err: Error) =>
+  err instanceof MiIOTimeoutError ||
+  err instanceof MiIOChecksumError ||
+  err instanceof MiIOHandshakeError;
+
+export interface SendOptions {
+  // Aborts the request, including pending retries.
+  signal?: AbortSignal;
+  // Requests with higher priority are sent first. Defaults to 0.
+  priority?: number;
+}
+
+export interface MiIOClient {
+  on<E extends keyof MiIOClientEvents>(
+    event: E,
+    listener: MiIOClientEvents[E]
+  ): this;
+  once<E extends keyof MiIOClientEvents>(
+    event: E,
+    listener: MiIOClientEvents[E]
+  ): this;
+  off<E extends keyof MiIOClientEvents>(
+    event: E,
+    listener: MiIOClientEvents[E]
+  ): this;
+  emit<E extends keyof MiIOClientEvents>(
+    event: E,
+    ...args: Parameters<MiIOClientEvents[E]>
+  ): boolean;
+}
 
-export class MiIOClient {
+export class MiIOClient extends EventEmitter {
   protected counter: number;
+  private expiredRequestIds: number[] = [];
+  private readonly scheduler: RequestScheduler;
+  private closed = false;
+  private unsubscriber: Unsubscriber | undefined;
+  private poller: PropertyPoller | undefined;
 
   deviceId: number | undefined;
   private handshakeTimestamp: number | undefined;
@@ -50,49 +146,191 @@ export class MiIOClient {
     private readonly serializer: RequestSerializer,
     private readonly deserializer: ResponseDeserializer,
     private readonly logger: Logger,
-    private readonly config: {
-      address: string;
-      port: number;
-      requestTimeout?: number;
-      handshakeTimeout?: number;
-      counter?: number;
-    },
+    private readonly config: MiIOClientConfig,
     private readonly waitQueue: {
       [addressPortHash: string]: WaitingRequest[];
     } = {}
   ) {
+    super();
     this.counter = this.config.counter ?? Math.floor(Math.random() * 10000);
+    this.scheduler = new RequestScheduler(this.config.scheduler);
   }
 
-  subscribeToMessages() {
-    return this.client.addMessageHandler((message, { address, port }) => {
-      if (address !== this.config.address || this.config.port !== port) {
-        // Only check messages from the target device
-        return;
-      }
-      const packet = PacketImpl.from(message);
-      const response = this.deserializer.deserialize(packet);
-      const responseId =
-        response.type === 'NORMAL'
-          ? (JSON.parse(response.data.toString()) as SimpleResponseSuccess<any>)
-            .id
-          : undefined;
-      const task = this.removeFromWaitQueue(responseId);
-      if (!task) {
-        return;
+  get address() {
+    return this.config.address;
+  }
+
+  get port() {
+    return this.config.port;
+  }
+
+  get isClosed() {
+    return this.closed;
+  }
+
+  subscribeToMessages(): Unsubscriber {
+    const unsubscribeMessage = this.client.addMessageHandler(
+      (message, remoteInfo) => {
+        const { address, port } = remoteInfo;
+        if (address !== this.config.address || this.config.port !== port) {
+          // Only check messages from the target device
+          return;
+        }
+        this.handleMessage(message, remoteInfo);
       }
-      task.resolve(packet);
-      clearTimeout(task.timeout);
+    );
+    const unsubscribeClose = this.client.addCloseHandler(() => this.close());
+    this.unsubscriber = () => {
+      unsubscribeMessage();
+      unsubscribeClose();
+    };
+    return this.unsubscriber;
+  }
+
+  /**
+   * Rejects every pending request and detaches the client from the network.
+   * The client refuses to send anything afterwards.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.unsubscriber?.();
+    this.unsubscriber = undefined;
+    this.invalidateHandshake();
+    this.poller?.stopAll();
+    this.scheduler.clear(new MiIOClientClosedError());
+    const hash = MiIOClient.getWaitQueueHash(
+      this.config.address,
+      this.config.port
+    );
+    const pendingRequests = this.waitQueue[hash] ?? [];
+    delete this.waitQueue[hash];
+    pendingRequests.forEach(({ timeout, reject }) => {
+      clearTimeout(timeout);
+      reject(new MiIOClientClosedError());
     });
   }
 
+  /**
+   * Resolves the pending request matching the message, or emits it as an
+   * event otherwise. Messages are expected to be sent from the target device,
+   * see `subscribeToMessages`.
+   */
+  handleMessage(message: Buffer, remoteInfo?: RemoteInfo) {
+    let packet: PacketImpl;
+    let response: MiIOResponse;
+    try {
+      packet = PacketImpl.from(message);
+      response = this.deserializer.deserialize(packet);
+    } catch (err) {
+      this.logger.warn('Dropping invalid packet.', err);
+      if (err instanceof MiIOChecksumError) {
+        // Most likely a wrong token, better reported than timing out.
+        this.rejectWaitingRequest(err);
+      }
+      return;
+    }
+    if (response.type === 'HANDSHAKE') {
+      this.resolveWaitingRequest(undefined, packet);
+      return;
+    }
+    let payload: MiIOMessage;
+    try {
+      payload = JSON.parse(response.data.toString());
+    } catch (err) {
+      this.logger.warn('Dropping message with malformed payload.', err);
+      return;
+    }
+    const metadata: MessageMetadata = {
+      address: remoteInfo?.address ?? this.config.address,
+      port: remoteInfo?.port ?? this.config.port,
+      deviceId: packet.deviceId,
+      stamp: packet.stamp,
+      receivedAt: new Date(),
+    };
+    this.emit('message', payload, metadata);
+    if (payload.id != null && this.resolveWaitingRequest(payload.id, packet)) {
+      return;
+    }
+    if (isDeviceEvent(payload)) {
+      this.emit('event', payload, metadata);
+    } else if (
+      payload.id != null &&
+      this.expiredRequestIds.indexOf(payload.id) >= 0
+    ) {
+      this.emit('lateResponse', payload, metadata);
+    } else {
+      this.emit('unmatched', payload, metadata);
+    }
+  }
+
+  private resolveWaitingRequest(
+    requestId: number | undefined,
+    packet: PacketImpl
+  ) {
+    const task = this.removeFromWaitQueue(requestId);
+    if (!task) {
+      return false;
+    }
+    task.resolve(packet);
+    clearTimeout(task.timeout);
+    return true;
+  }
+
+  // The id of a reply failing the checksum cannot be read, so it is only
+  // matched when a single request waits for a reply.
+  private rejectWaitingRequest(err: Error) {
+    const hash = MiIOClient.getWaitQueueHash(
+      this.config.address,
+      this.config.port
+    );
+    const requests = (this.waitQueue[hash] ?? []).filter(
+      ({ requestId }) => requestId != null
+    );
+    if (requests.length !== 1) {
+      return;
+    }
+    const [task] = requests;
+    this.removeFromWaitQueue(task.requestId);
+    clearTimeout(task.timeout);
+    task.reject(err);
+  }
+
+  private markRequestExpired(requestId?: number) {
+    if (requestId == null) {
+      return;
+    }
+    this.expiredRequestIds = [
+      ...this.expiredRequestIds.slice(1 - MAX_EXPIRED_REQUEST_IDS),
+      requestId,
+    ];
+  }
+
   invalidateHandshake() {
     this.handshakeTimestamp = undefined;
     this.deviceId = undefined;
     this.deviceStamp = undefined;
   }
 
-  private async getRequestMetadata() {
+  /**
+   * Retrieves the token revealed in the handshake reply. Returns undefined
+   * when the device hides it, which is the case once it has been provisioned.
+   */
+  async getDeviceToken(): Promise<Buffer | undefined> {
+    this.throwIfClosed();
+    const packet = await this.scheduler.schedule(() =>
+      this.sendImpl(new HandshakeRequest())
+    );
+    const response = this.deserializer.deserialize(packet);
+    if (response.type !== 'HANDSHAKE' || response.isTokenHidden) {
+      return undefined;
+    }
+    return response.token;
+  }
+
+  private async getRequestMetadata(timeout?: number, signal?: AbortSignal) {
     if (
       !this.handshakeTimestamp ||
       !this.deviceId ||
@@ -104,7 +342,21 @@ export class MiIOClient {
         'handshake expired. Last handshake time: ' + this.handshakeTimestamp
       );
       this.logger.debug('applying handshake again...');
-      const response = await this.sendImpl(new HandshakeRequest());
+      let response: PacketImpl;
+      try {
+        response = await this.sendImpl(new HandshakeRequest(), {
+          timeout,
+          signal,
+        });
+      } catch (err) {
+        if (
+          err instanceof MiIOAbortError ||
+          err instanceof MiIOClientClosedError
+        ) {
+          throw err;
+        }
+        throw new MiIOHandshakeError('Handshake failed.', err as Error);
+      }
       this.deviceId = response.deviceId;
       this.deviceStamp = response.stamp;
       this.handshakeTimestamp = Date.now();
@@ -122,60 +374,252 @@ export class MiIOClient {
 
   private async sendImpl<T extends MiIORequest>(
     request: T,
-    requestId?: number
+    {
+      requestId,
+      timeout: requestTimeout = this.config.requestTimeout ?? DEFAULT_TIMEOUT,
+      signal,
+    }: { requestId?: number; timeout?: number; signal?: AbortSignal } = {}
   ) {
+    this.throwIfClosed();
+    throwIfAborted(signal);
+    let cleanUp = () => {};
     const promise = new Promise<PacketImpl>((resolve, reject) => {
+      const abortHandler = () => {
+        clearTimeout(timeout);
+        this.removeFromWaitQueue(requestId);
+        this.markRequestExpired(requestId);
+        reject(new MiIOAbortError());
+      };
       const timeout = setTimeout(() => {
-        reject(new Error('Timeout'));
+        signal?.removeEventListener('abort', abortHandler);
+        reject(new MiIOTimeoutError(requestTimeout));
         this.removeFromWaitQueue(requestId);
-      }, this.config.requestTimeout ?? DEFAULT_TIMEOUT);
+        this.markRequestExpired(requestId);
+      }, requestTimeout);
+      signal?.addEventListener('abort', abortHandler, { once: true });
       this.addToWaitQueue({
         requestId,
         timeout,
-        resolve,
-        reject,
+        resolve: packet => {
+          signal?.removeEventListener('abort', abortHandler);
+          resolve(packet);
+        },
+        reject: err => {
+          signal?.removeEventListener('abort', abortHandler);
+          reject(err);
+        },
       });
+      cleanUp = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', abortHandler);
+        this.removeFromWaitQueue(requestId);
+      };
     });
     this.logger.debug(
       'Sending request. Type: ',
       request.type,
       JSON.stringify(request.data.toString(), null, 2)
     );
-    await this.client.send(
-      this.serializer.serialize(request),
-      this.config.address,
-      this.config.port
-    );
+    try {
+      await this.client.send(
+        this.serializer.serialize(request),
+        this.config.address,
+        this.config.port
+      );
+    } catch (err) {
+      // Nobody waits for the reply anymore, its timer must not fire.
+      cleanUp();
+      throw err;
+    }
     return promise;
   }
 
-  send = retry(async <A, R>(method: string, params: A): Promise<
-    SimpleResponseSuccess<R>
-  > => {
+  /**
+   * Sends a request, typing params and result by `MiIOMethodMap`.
+   */
+  send<M extends string>(
+    method: M,
+    params: MethodParams<M>,
+    options?: SendOptions
+  ): Promise<SimpleResponseSuccess<MethodResult<M>>> {
+    return this.sendUnchecked<MethodParams<M>, MethodResult<M>>(
+      method,
+      params,
+      options
+    );
+  }
+
+  /**
+   * Sends a request with the given params and result types, for methods
+   * missing in `MiIOMethodMap`.
+   */
+  async sendUnchecked<A, R>(
+    method: string,
+    params: A,
+    { signal, priority }: SendOptions = {}
+  ): Promise<SimpleResponseSuccess<R>> {
+    this.throwIfClosed();
+    const {
+      shouldInvalidateHandshake: invalidateOn = shouldInvalidateHandshake,
+      onRetry,
+      ...policy
+    } = this.config.retryPolicy ?? {};
+    return retry(
+      ({ timeout }) =>
+        this.scheduler.schedule(
+          () => this.sendOnce<A, R>(method, params, timeout, signal),
+          { priority, signal }
+        ),
+      {
+        ...policy,
+        onRetry: (err, attempt) => {
+          if (invalidateOn(err)) {
+            this.logger.debug('invalidating handshake before retrying...');
+            this.invalidateHandshake();
+          }
+          onRetry?.(err, attempt);
+        },
+      },
+      signal
+    );
+  }
+
+  /**
+   * Reads properties of a MIoT spec device. Failures of single properties are
+   * reported through `code` and `error` of each result instead of rejecting.
+   */
+  async getProperties<T = unknown>(
+    properties: MiotPropertyId[],
+    options?: SendOptions
+  ): Promise<MiotPropertyResult<T>[]> {
+    const { result } = await this.send(
+      'get_properties',
+      properties.map(({ siid, piid }) => ({
+        did: toMiotDid({ siid, piid }),
+        siid,
+        piid,
+      })),
+      options
+    );
+    return toMiotPropertyResults<T>(properties, result);
+  }
+
+  async setProperties(
+    properties: MiotPropertyValue[],
+    options?: SendOptions
+  ): Promise<MiotPropertyResult<never>[]> {
+    const { result } = await this.send(
+      'set_properties',
+      properties.map(({ siid, piid, value }) => ({
+        did: toMiotDid({ siid, piid }),
+        siid,
+        piid,
+        value,
+      })),
+      options
+    );
+    return toMiotPropertyResults<never>(properties, result);
+  }
+
+  /**
+   * Invokes a MIoT action, rejects with `MiIODeviceError` when the device
+   * reports a non-zero code.
+   */
+  async callAction<T extends unknown[] = unknown[]>(
+    siid: number,
+    aiid: number,
+    args: unknown[] = [],
+    options?: SendOptions
+  ): Promise<T> {
+    const { result } = await this.send(
+      'action',
+      { did: `call-${siid}-${aiid}`, siid, aiid, in: args },
+      options
+    );
+    if (result.code !== 0) {
+      throw new MiIODeviceError(
+        result.code,
+        `${getMiotErrorMessage(result.code)}. (siid: ${siid}, aiid: ${aiid})`
+      );
+    }
+    return (result.out ?? []) as T;
+  }
+
+  /**
+   * Reads model, firmware and network details of the device.
+   */
+  async info(options?: SendOptions): Promise<DeviceInfo> {
+    const { result } = await this.send('miIO.info', [], options);
+    return toDeviceInfo(result);
+  }
+
+  /**
+   * Polls the properties periodically and emits `change` events whenever
+   * their values change. Watchers of the same client are polled together.
+   */
+  watch<T extends Record<string, unknown>>(
+    properties: (keyof T & string)[],
+    options?: WatchOptions
+  ): PropertyWatcher<T> {
+    this.throwIfClosed();
+    if (!this.poller) {
+      this.poller = new PropertyPoller(this, this.logger);
+    }
+    return this.poller.watch<T>(properties, options);
+  }
+
+  private async sendOnce<A, R>(
+    method: string,
+    params: A,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<SimpleResponseSuccess<R>> {
+    // Handshake and request share the time limit of the attempt.
+    const attemptDeadline = timeout == null ? undefined : Date.now() + timeout;
+    const getRemainingTime = () =>
+      attemptDeadline == null
+        ? undefined
+        : Math.max(0, attemptDeadline - Date.now());
     const {
       deviceId,
       deviceStamp,
       handshakeTimestamp,
-    } = await this.getRequestMetadata();
+    } = await this.getRequestMetadata(getRemainingTime(), signal);
     const requestId = ++this.counter;
-    
+
     // Add a delay to prevent sending request too early after handshake.
-    await delay(100);
+    await delay(100, signal);
 
     const request = new NormalRequest(
       deviceId,
       Math.floor((Date.now() - handshakeTimestamp) * 0.001) + deviceStamp,
       Buffer.from(JSON.stringify({ id: requestId, method, params }))
     );
-    const packet = await this.sendImpl(request, requestId);
+    const packet = await this.sendImpl(request, {
+      requestId,
+      timeout: getRemainingTime(),
+      signal,
+    });
     const response = this.deserializer.deserialize(packet);
     if (response.data.byteLength <= 0) {
-      throw new Error('Received byte length less then or equal to 0');
+      throw new MiIOPacketFormatError(
+        'Received byte length less then or equal to 0'
+      );
     }
-    const message = JSON.parse(response.data.toString());
+    const message: SimpleResponse<R> = JSON.parse(response.data.toString());
     this.logger.debug('Received response:', JSON.stringify(message, null, 2));
+    if ('error' in message) {
+      const { code, message: errorMessage } = message.error;
+      throw new MiIODeviceError(code, errorMessage);
+    }
     return message;
-  }, 3);
+  }
+
+  private throwIfClosed() {
+    if (this.closed) {
+      throw new MiIOClientClosedError();
+    }
+  }
 
   private addToWaitQueue(request: WaitingRequest) {
     const hash = MiIOClient.getWaitQueueHash(
@@ -193,21 +637,18 @@ export class MiIOClient {
       this.config.address,
       this.config.port
     );
-    const index = this.waitQueue[hash].findIndex(
-      ({ requestId: id }) => id === requestId
-    );
-    if (index) {
-      this.logger.warn(
-        `No pending promise found for ${requestId}. Possible options: ${this.waitQueue[
-          hash
-        ]
+    const queue = this.waitQueue[hash] ?? [];
+    const index = queue.findIndex(({ requestId: id }) => id === requestId);
+    if (index < 0) {
+      this.logger.debug(
+        `No pending promise found for ${requestId}. Possible options: ${queue
           .map(r => r.requestId)
           .join(' ,')}.`
       );
       return;
     }
-    const task = this.waitQueue[hash][index];
-    this.waitQueue[hash] = remove(this.waitQueue[hash], index);
+    const task = queue[index];
+    this.waitQueue[hash] = remove(queue, index);
     return task;
   }
 }
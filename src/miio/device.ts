@@ -0,0 +1,18 @@
+import { MiIOClient } from './client';
+import { DeviceInfo } from './device_info';
+
+/**
+ * Base class of device wrappers. Also returned by `connect` for models
+ * without a specialized wrapper.
+ */
+export class MiIODevice {
+  constructor(readonly client: MiIOClient, readonly info?: DeviceInfo) {}
+
+  get model() {
+    return this.info?.model;
+  }
+
+  close() {
+    return this.client.close();
+  }
+}
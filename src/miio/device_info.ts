@@ -0,0 +1,58 @@
+import { isTokenHidden } from './packet';
+import { RawDeviceInfo } from './methods';
+
+export interface DeviceInfo {
+  // e.g. "roborock.vacuum.s5".
+  model: string;
+  firmwareVersion: string;
+  hardwareVersion: string;
+  mac: string;
+  // Seconds since the device booted.
+  life: number;
+  // Undefined when the device hides its token.
+  token?: string;
+  mcuFirmwareVersion?: string;
+  wifiFirmwareVersion?: string;
+  wifi?: {
+    ssid: string;
+    bssid: string;
+    // In dBm.
+    rssi: number;
+  };
+  network?: {
+    localIp: string;
+    mask: string;
+    gateway: string;
+  };
+  // Reply of `miIO.info` as is, for fields not covered above.
+  raw: RawDeviceInfo;
+}
+
+export function toDeviceInfo(raw: RawDeviceInfo): DeviceInfo {
+  const token =
+    typeof raw.token === 'string' && /^[0-9a-f]{32}$/i.test(raw.token)
+      ? raw.token
+      : undefined;
+  return {
+    model: raw.model,
+    firmwareVersion: raw.fw_ver,
+    hardwareVersion: raw.hw_ver,
+    mac: raw.mac,
+    life: raw.life,
+    token:
+      token && !isTokenHidden(Buffer.from(token, 'hex')) ? token : undefined,
+    mcuFirmwareVersion: raw.mcu_fw_ver,
+    wifiFirmwareVersion: raw.wifi_fw_ver,
+    wifi: raw.ap && {
+      ssid: raw.ap.ssid,
+      bssid: raw.ap.bssid,
+      rssi: raw.ap.rssi,
+    },
+    network: raw.netif && {
+      localIp: raw.netif.localIp,
+      mask: raw.netif.mask,
+      gateway: raw.netif.gw,
+    },
+    raw,
+  };
+}
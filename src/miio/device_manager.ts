@@ -0,0 +1,145 @@
+import { createSocket, RemoteInfo } from 'dgram';
+import { Preconditions } from '../utils/preconditions';
+import { parseToken, TokenLike } from '../utils/token_utils';
+import { MiIOClient, MiIOClientConfig, WaitingRequest } from './client';
+import { ConsoleLogger, Logger } from './logger';
+import { MiIONetwork, Unsubscriber } from './network';
+import { HEADER_BYTES } from './packet';
+import { RequestSerializer, ResponseDeserializer } from './serializer';
+
+export interface ManagedDeviceConfig extends Omit<MiIOClientConfig, 'port'> {
+  token: TokenLike;
+  port?: number;
+}
+
+/**
+ * Manages clients of many devices sharing a single socket. Incoming messages
+ * are routed to the client of the sender.
+ */
+export class MiIODeviceManager {
+  private readonly clients = new Map<string, MiIOClient>();
+  private readonly waitQueue: {
+    [addressPortHash: string]: WaitingRequest[];
+  } = {};
+  private unsubscriber: Unsubscriber | undefined;
+
+  private static getClientKey(address: string, port: number) {
+    return `${address}:${port}`;
+  }
+
+  static create(logger: Logger = new ConsoleLogger()) {
+    return new MiIODeviceManager(
+      new MiIONetwork(createSocket('udp4'), logger),
+      logger
+    );
+  }
+
+  constructor(
+    private readonly network: MiIONetwork,
+    private readonly logger: Logger
+  ) {}
+
+  get size() {
+    return this.clients.size;
+  }
+
+  add({
+    token,
+    port = MiIOClient.DEFAULT_PORT,
+    ...config
+  }: ManagedDeviceConfig): MiIOClient {
+    const key = MiIODeviceManager.getClientKey(config.address, port);
+    Preconditions.checkArgument(
+      !this.clients.has(key),
+      `Device ${key} has been added already.`
+    );
+    const tokenBuffer = parseToken(token);
+    const client = new MiIOClient(
+      this.network,
+      new RequestSerializer(tokenBuffer),
+      new ResponseDeserializer(tokenBuffer),
+      this.logger,
+      { ...config, port },
+      this.waitQueue
+    );
+    this.clients.set(key, client);
+    if (!this.unsubscriber) {
+      const unsubscribeMessage = this.network.addMessageHandler(
+        (message, info) => this.route(message, info)
+      );
+      // Clients of a closed socket cannot receive replies anymore.
+      const unsubscribeClose = this.network.addCloseHandler(() =>
+        this.closeAll()
+      );
+      this.unsubscriber = () => {
+        unsubscribeMessage();
+        unsubscribeClose();
+      };
+    }
+    return client;
+  }
+
+  get(address: string, port = MiIOClient.DEFAULT_PORT) {
+    return this.clients.get(MiIODeviceManager.getClientKey(address, port));
+  }
+
+  /**
+   * Closes the client of the device and stops routing messages to it.
+   */
+  async remove(address: string, port = MiIOClient.DEFAULT_PORT) {
+    const key = MiIODeviceManager.getClientKey(address, port);
+    const client = this.clients.get(key);
+    if (!client) {
+      return false;
+    }
+    this.clients.delete(key);
+    if (this.clients.size === 0) {
+      this.unsubscribe();
+    }
+    await client.close();
+    return true;
+  }
+
+  async shutdown() {
+    await this.closeAll();
+    await this.network.close();
+  }
+
+  private async closeAll() {
+    const clients = Array.from(this.clients.values());
+    this.clients.clear();
+    this.unsubscribe();
+    await Promise.all(clients.map(client => client.close()));
+  }
+
+  private unsubscribe() {
+    this.unsubscriber?.();
+    this.unsubscriber = undefined;
+  }
+
+  private findClient({ address, port }: RemoteInfo, message: Buffer) {
+    const client = this.clients.get(
+      MiIODeviceManager.getClientKey(address, port)
+    );
+    if (client || message.byteLength < HEADER_BYTES) {
+      return client;
+    }
+    // The device may reply from another address or port, e.g. after its
+    // address was renewed, in which case the device ID is used instead.
+    const deviceId = message.readUInt32BE(8);
+    return Array.from(this.clients.values()).find(
+      current => current.deviceId === deviceId
+    );
+  }
+
+  private route(message: Buffer, remoteInfo: RemoteInfo) {
+    const client = this.findClient(remoteInfo, message);
+    if (!client) {
+      this.logger.debug(
+        `No client found for ${remoteInfo.address}:${remoteInfo.port}.`
+      );
+      return;
+    }
+    client.handleMessage(message, remoteInfo);
+  }
+}
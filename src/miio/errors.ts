@@ -0,0 +1,162 @@
+export class MiIOError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+    // Extending built-in classes breaks the prototype chain when compiling to
+    // ES5, which makes `instanceof` checks fail without this.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class MiIOTimeoutError extends MiIOError {
+  constructor(readonly timeout: number) {
+    super(`Request timed out after ${timeout}ms.`);
+  }
+}
+
+export class MiIOAbortError extends MiIOError {
+  constructor() {
+    super('Request aborted.');
+  }
+}
+
+export class MiIOClientClosedError extends MiIOError {
+  constructor() {
+    super('Client has been closed.');
+  }
+}
+
+export class MiIOQueueOverflowError extends MiIOError {
+  constructor(readonly maxQueueLength: number) {
+    super(`Request queue is full. Max queue length: ${maxQueueLength}.`);
+  }
+}
+
+export class MiIOChecksumError extends MiIOError {}
+
+export class MiIOPacketFormatError extends MiIOError {}
+
+export class MiIOHandshakeError extends MiIOError {
+  constructor(message: string, readonly cause?: Error) {
+    super(cause ? `${message} Error: ${cause.message}` : message);
+  }
+}
+
+/**
+ * Error codes replied by devices. Besides the JSON-RPC ones, devices use a few
+ * codes of their own.
+ */
+export enum MiIODeviceErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  UNKNOWN_METHOD = -10000,
+  // The device did not get the acknowledgement of the user in time, mostly
+  // because it was busy.
+  USER_ACK_TIMEOUT = -9999,
+}
+
+const RETRYABLE_DEVICE_ERROR_CODES: number[] = [
+  MiIODeviceErrorCode.INTERNAL_ERROR,
+  MiIODeviceErrorCode.USER_ACK_TIMEOUT,
+];
+
+export class MiIODeviceError extends MiIOError {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+
+  get retryable() {
+    return RETRYABLE_DEVICE_ERROR_CODES.indexOf(this.code) >= 0;
+  }
+}
+
+// Error codes of MIoT spec devices, reported per property or action.
+export enum MiotErrorCode {
+  PROPERTY_NOT_READABLE = -4001,
+  PROPERTY_NOT_WRITABLE = -4002,
+  NOT_FOUND = -4003,
+  INTERNAL_ERROR = -4004,
+  INVALID_VALUE = -4005,
+  INVALID_ACTION_PARAMS = -4006,
+  INVALID_DID = -4007,
+}
+
+const MIOT_ERROR_MESSAGES: { [code: number]: string } = {
+  [MiotErrorCode.PROPERTY_NOT_READABLE]: 'Property is not readable',
+  [MiotErrorCode.PROPERTY_NOT_WRITABLE]: 'Property is not writable',
+  [MiotErrorCode.NOT_FOUND]: 'Property, action or event does not exist',
+  [MiotErrorCode.INTERNAL_ERROR]: 'Internal error',
+  [MiotErrorCode.INVALID_VALUE]: 'Invalid property value',
+  [MiotErrorCode.INVALID_ACTION_PARAMS]: 'Invalid action parameters',
+  [MiotErrorCode.INVALID_DID]: 'Invalid did',
+};
+
+export function getMiotErrorMessage(code: number) {
+  return MIOT_ERROR_MESSAGES[code] ?? `Unknown error (${code})`;
+}
+
+/**
+ * Failure of a single property in a MIoT `get_properties` or `set_properties`
+ * call.
+ */
+export class MiotPropertyError extends MiIODeviceError {
+  constructor(code: number, readonly siid: number, readonly piid: number) {
+    super(code, `${getMiotErrorMessage(code)}. (siid: ${siid}, piid: ${piid})`);
+  }
+}
+
+// Thrown before sending values violating the MIoT spec of the device.
+export class MiotSpecValidationError extends MiIOError {}
+
+// Thrown by device wrappers for features the model does not have.
+export class MiIOUnsupportedError extends MiIOError {
+  constructor(readonly feature: string, readonly model?: string) {
+    super(`"${feature}" is not supported by ${model ?? 'this device'}.`);
+  }
+}
+
+// Thrown when a device cannot be provisioned, e.g. because it already left
+// AP mode.
+export class MiIOProvisioningError extends MiIOError {}
+
+// Thrown when the device reports a failed update or does not finish in time.
+export class MiIOFirmwareUpdateError extends MiIOError {}
+
+// Thrown for cron expressions a vacuum timer schedule cannot hold, e.g. steps
+// in the minute field.
+export class VacuumCronFormatError extends MiIOError {}
+
+// Error reported by an Aqara gateway in the `data` of an acknowledgement, e.g.
+// "Invalid key".
+export class AqaraGatewayError extends MiIOError {}
+
+export class MiIORetryExhaustedError extends MiIOError {
+  // Errors of every attempt, in order.
+  constructor(readonly cause: Error[]) {
+    super(
+      'Running out of retry quota. Error: ' + cause[cause.length - 1]?.message
+    );
+  }
+}
+
+/**
+ * Device errors are only retried when the device is likely to succeed later,
+ * aborted, overflowed or closed requests are never retried, and everything
+ * else (timeouts, corrupted packets...) is always retried.
+ */
+export function isRetryableError(err: Error) {
+  if (
+    err instanceof MiIOAbortError ||
+    err instanceof MiIOQueueOverflowError ||
+    err instanceof MiIOClientClosedError
+  ) {
+    return false;
+  }
+  if (err instanceof MiIODeviceError) {
+    return err.retryable;
+  }
+  return true;
+}
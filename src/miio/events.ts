@@ -0,0 +1,48 @@
+/**
+ * Decrypted payload of a message sent by a device. Replies carry `id` with
+ * either `result` or `error`, while notifications carry `method` and `params`.
+ */
+export interface MiIOMessage {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+  [key: string]: unknown;
+}
+
+export interface MessageMetadata {
+  address: string;
+  port: number;
+  deviceId: number;
+  stamp: number;
+  receivedAt: Date;
+}
+
+export type MiIOMessageListener = (
+  message: MiIOMessage,
+  metadata: MessageMetadata
+) => void;
+
+export interface MiIOClientEvents {
+  // Every message from the device, including replies of pending requests.
+  message: MiIOMessageListener;
+  // Notifications pushed by the device, e.g. `props` or `event.*`.
+  event: MiIOMessageListener;
+  // Replies of requests that timed out or were aborted.
+  lateResponse: MiIOMessageListener;
+  // Messages matching neither a request nor a known notification.
+  unmatched: MiIOMessageListener;
+}
+
+const EVENT_METHODS = ['props', 'properties_changed', 'event_occured'];
+
+export function isDeviceEvent({ method }: MiIOMessage) {
+  return (
+    method != null &&
+    (method.startsWith('event.') || EVENT_METHODS.indexOf(method) >= 0)
+  );
+}
@@ -0,0 +1,57 @@
+import { createSocket } from 'dgram';
+import { parseToken, TokenLike } from '../utils/token_utils';
+import { MiIOClient, MiIOClientConfig } from './client';
+import { ConsoleLogger, Logger } from './logger';
+import { MiIONetwork } from './network';
+import { RequestSerializer, ResponseDeserializer } from './serializer';
+
+export interface CreateMiIOClientOptions
+  extends Pick<MiIOClientConfig, 'counter' | 'retryPolicy' | 'scheduler'> {
+  address: string;
+  token: TokenLike;
+  port?: number;
+  logger?: Logger;
+  timeouts?: {
+    request?: number;
+    handshake?: number;
+  };
+}
+
+// Closing the client closes its socket as well.
+export type StandaloneMiIOClient = MiIOClient;
+
+/**
+ * Creates a client with its own socket, ready to send requests.
+ */
+export function createMiIOClient({
+  address,
+  token,
+  port = MiIOClient.DEFAULT_PORT,
+  logger = new ConsoleLogger(),
+  timeouts = {},
+  ...config
+}: CreateMiIOClientOptions): StandaloneMiIOClient {
+  const tokenBuffer = parseToken(token);
+  const network = new MiIONetwork(createSocket('udp4'), logger);
+  const client = new MiIOClient(
+    network,
+    new RequestSerializer(tokenBuffer),
+    new ResponseDeserializer(tokenBuffer),
+    logger,
+    {
+      ...config,
+      address,
+      port,
+      requestTimeout: timeouts.request,
+      handshakeTimeout: timeouts.handshake,
+    }
+  );
+  client.subscribeToMessages();
+  // Pending requests are rejected before the socket goes away.
+  const closeClient = client.close.bind(client);
+  client.close = async () => {
+    await closeClient();
+    await network.close();
+  };
+  return client;
+}
@@ -0,0 +1,95 @@
+import {
+  MiotActionResult,
+  RawMiotAction,
+  RawMiotProperty,
+  RawMiotPropertyResult,
+} from './miot';
+
+// Reply of `miIO.info`, as sent by the device.
+export interface RawDeviceInfo {
+  model: string;
+  fw_ver: string;
+  hw_ver: string;
+  mac: string;
+  // Seconds since the device booted.
+  life: number;
+  token: string;
+  uid?: number;
+  mcu_fw_ver?: string;
+  wifi_fw_ver?: string;
+  ap?: {
+    ssid: string;
+    bssid: string;
+    rssi: number;
+    primary?: number;
+  };
+  netif?: {
+    localIp: string;
+    mask: string;
+    gw: string;
+  };
+}
+
+// Params of `miIO.config_router`. Some devices take extra fields, e.g.
+// `country_domain`, `tz` or `gmt_offset`.
+export interface RawRouterConfig {
+  ssid: string;
+  passwd: string;
+  // ID of the Xiaomi account owning the device, 0 for none.
+  uid: number;
+  [key: string]: unknown;
+}
+
+// Params of `miIO.ota`, the device downloads the image from `app_url`.
+export interface RawOtaRequest {
+  mode: 'normal';
+  install: '1';
+  app_url: string;
+  file_md5: string;
+  proc: 'dnld install';
+}
+
+/**
+ * Params and result of every known method, used by `MiIOClient.send` to type
+ * its arguments. Device modules add their own methods through declaration
+ * merging:
+ *
+ *   declare module 'simple-miio' {
+ *     interface MiIOMethodMap {
+ *       set_mode: { params: [string]; result: ['ok'] };
+ *     }
+ *   }
+ */
+export interface MiIOMethodMap {
+  'miIO.info': { params: []; result: RawDeviceInfo };
+  // Joins the Wi-Fi network, only accepted while the device is in AP mode.
+  'miIO.config_router': { params: RawRouterConfig; result: ['ok'] };
+  'miIO.ota': { params: RawOtaRequest; result: ['ok'] };
+  // In percent.
+  'miIO.get_ota_progress': { params: []; result: [number] };
+  // e.g. "idle", "downloading", "installing" or "failed".
+  'miIO.get_ota_state': { params: []; result: [string] };
+  // Legacy devices reply the values in the order of the requested names.
+  get_prop: { params: string[]; result: unknown[] };
+  set_power: { params: ['on' | 'off']; result: ['ok'] };
+  get_properties: {
+    params: RawMiotProperty[];
+    result: RawMiotPropertyResult[];
+  };
+  set_properties: {
+    params: RawMiotProperty[];
+    result: RawMiotPropertyResult[];
+  };
+  action: { params: RawMiotAction; result: MiotActionResult };
+}
+
+export type MiIOMethod = keyof MiIOMethodMap;
+
+// Methods missing in `MiIOMethodMap` accept any params and reply `unknown`.
+export type MethodParams<M extends string> = M extends MiIOMethod
+  ? MiIOMethodMap[M]['params']
+  : unknown;
+
+export type MethodResult<M extends string> = M extends MiIOMethod
+  ? MiIOMethodMap[M]['result']
+  : unknown;
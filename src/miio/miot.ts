@@ -0,0 +1,88 @@
+import { MiotErrorCode, MiotPropertyError } from './errors';
+
+export interface MiotPropertyId {
+  siid: number;
+  piid: number;
+}
+
+export interface MiotPropertyValue<T = unknown> extends MiotPropertyId {
+  value: T;
+}
+
+export interface MiotPropertyResult<T = unknown> extends MiotPropertyId {
+  // 0 on success, see `MiotErrorCode` otherwise.
+  code: number;
+  value?: T;
+  error?: MiotPropertyError;
+}
+
+export interface MiotActionResult<T extends unknown[] = unknown[]> {
+  code: number;
+  out: T;
+}
+
+// Payloads of `get_properties`, `set_properties` and `action` on the wire.
+export interface RawMiotProperty extends MiotPropertyId {
+  did: string;
+  value?: unknown;
+}
+
+export interface RawMiotPropertyResult extends MiotPropertyId {
+  did: string;
+  code: number;
+  value?: unknown;
+}
+
+export interface RawMiotAction {
+  did: string;
+  siid: number;
+  aiid: number;
+  in: unknown[];
+}
+
+// The device echoes `did` back, which is used to match results to requests.
+export function toMiotDid({ siid, piid }: MiotPropertyId) {
+  return `${siid}-${piid}`;
+}
+
+// Reverse of `toMiotDid`, e.g. "2-1" is { siid: 2, piid: 1 }.
+export function fromMiotDid(did: string): MiotPropertyId {
+  const [siid, piid] = did.split('-').map(Number);
+  return { siid, piid };
+}
+
+/**
+ * Matches every requested property to its result, turning non-zero codes into
+ * `MiotPropertyError`s.
+ */
+export function toMiotPropertyResults<T>(
+  properties: MiotPropertyId[],
+  rawResults: RawMiotPropertyResult[]
+): MiotPropertyResult<T>[] {
+  return properties.map(({ siid, piid }, index) => {
+    const did = toMiotDid({ siid, piid });
+    const raw =
+      rawResults.find(
+        result =>
+          result.did === did || (result.siid === siid && result.piid === piid)
+      ) ?? rawResults[index];
+    if (!raw) {
+      return {
+        siid,
+        piid,
+        code: MiotErrorCode.NOT_FOUND,
+        error: new MiotPropertyError(MiotErrorCode.NOT_FOUND, siid, piid),
+      };
+    }
+    const { code, value } = raw;
+    if (code !== 0) {
+      return {
+        siid,
+        piid,
+        code,
+        error: new MiotPropertyError(code, siid, piid),
+      };
+    }
+    return { siid, piid, code, value: value as T };
+  });
+}
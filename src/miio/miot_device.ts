@@ -0,0 +1,47 @@
+import { SendOptions } from './client';
+import { MiIODevice } from './device';
+
+/**
+ * Base class of device wrappers generated from MIoT spec files, reading and
+ * writing one property at a time.
+ */
+export class MiotDevice extends MiIODevice {
+  protected async getProperty<T>(
+    siid: number,
+    piid: number,
+    options?: SendOptions
+  ): Promise<T> {
+    const [result] = await this.client.getProperties<T>(
+      [{ siid, piid }],
+      options
+    );
+    if (result.error) {
+      throw result.error;
+    }
+    return result.value as T;
+  }
+
+  protected async setProperty<T>(
+    siid: number,
+    piid: number,
+    value: T,
+    options?: SendOptions
+  ): Promise<void> {
+    const [result] = await this.client.setProperties(
+      [{ siid, piid, value }],
+      options
+    );
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  protected callAction<T extends unknown[] = unknown[]>(
+    siid: number,
+    aiid: number,
+    args: unknown[] = [],
+    options?: SendOptions
+  ): Promise<T> {
+    return this.client.callAction<T>(siid, aiid, args, options);
+  }
+}
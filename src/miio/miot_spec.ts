@@ -0,0 +1,382 @@
+import { promises as fs } from 'fs';
+import { MiIOClient, SendOptions } from './client';
+import { MiotSpecValidationError } from './errors';
+import { MiotPropertyId, MiotPropertyResult, MiotPropertyValue } from './miot';
+
+export type MiotFormat =
+  | 'bool'
+  | 'uint8'
+  | 'uint16'
+  | 'uint32'
+  | 'int8'
+  | 'int16'
+  | 'int32'
+  | 'int64'
+  | 'float'
+  | 'string'
+  | 'hex';
+
+export type MiotAccess = 'read' | 'write' | 'notify';
+
+export interface MiotValueListItem {
+  value: number;
+  description: string;
+}
+
+// Documents of `urn:miot-spec-v2:device:...` instances, as served by the
+// MIoT spec site.
+export interface MiotSpecDocument {
+  type: string;
+  description: string;
+  services: {
+    iid: number;
+    type: string;
+    description: string;
+    properties?: {
+      iid: number;
+      type: string;
+      description: string;
+      format: MiotFormat;
+      access: MiotAccess[];
+      unit?: string;
+      // [min, max, step]
+      'value-range'?: [number, number, number];
+      'value-list'?: MiotValueListItem[];
+    }[];
+    actions?: {
+      iid: number;
+      type: string;
+      description: string;
+      // Property IDs of the same service.
+      in: number[];
+      out: number[];
+    }[];
+    events?: {
+      iid: number;
+      type: string;
+      description: string;
+      arguments: number[];
+    }[];
+  }[];
+}
+
+export interface MiotSpecProperty extends MiotPropertyId {
+  // "<service>:<property>", e.g. "fan:mode".
+  name: string;
+  type: string;
+  description: string;
+  format: MiotFormat;
+  access: MiotAccess[];
+  unit?: string;
+  valueRange?: { min: number; max: number; step: number };
+  valueList?: MiotValueListItem[];
+}
+
+export interface MiotSpecAction {
+  name: string;
+  type: string;
+  description: string;
+  siid: number;
+  aiid: number;
+  in: MiotSpecProperty[];
+  out: MiotSpecProperty[];
+}
+
+export interface MiotSpecEvent {
+  name: string;
+  type: string;
+  description: string;
+  siid: number;
+  eiid: number;
+  arguments: MiotSpecProperty[];
+}
+
+export interface MiotSpecService {
+  name: string;
+  type: string;
+  description: string;
+  siid: number;
+  properties: MiotSpecProperty[];
+  actions: MiotSpecAction[];
+  events: MiotSpecEvent[];
+}
+
+const INTEGER_RANGES: { [format: string]: [number, number] } = {
+  uint8: [0, 0xff],
+  uint16: [0, 0xffff],
+  uint32: [0, 0xffffffff],
+  int8: [-0x80, 0x7f],
+  int16: [-0x8000, 0x7fff],
+  int32: [-0x80000000, 0x7fffffff],
+  int64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+};
+
+// Tolerance of floating point errors when checking value steps.
+const STEP_EPSILON = 1e-6;
+
+/**
+ * Extracts the name from the URN, e.g. "mode" from
+ * "urn:miot-spec-v2:property:mode:00000008:zhimi-ma4:1".
+ */
+export function getUrnName(urn: string) {
+  return urn.split(':')[3] ?? urn;
+}
+
+/**
+ * Indexes services, properties, actions and events of a MIoT spec document
+ * by name, and validates values against the constraints of the spec.
+ */
+export class MiotSpec {
+  readonly services: MiotSpecService[];
+  private readonly properties = new Map<string, MiotSpecProperty>();
+  private readonly actions = new Map<string, MiotSpecAction>();
+  private readonly events = new Map<string, MiotSpecEvent>();
+
+  static async load(path: string) {
+    const content = await fs.readFile(path, 'utf8');
+    return new MiotSpec(JSON.parse(content));
+  }
+
+  constructor(readonly document: MiotSpecDocument) {
+    const serviceNames: string[] = [];
+    this.services = document.services.map(service => {
+      let name = getUrnName(service.type);
+      // Devices like power strips have several services of the same type.
+      if (serviceNames.indexOf(name) >= 0) {
+        name = `${name}-${service.iid}`;
+      }
+      serviceNames.push(name);
+      return this.indexService(name, service);
+    });
+  }
+
+  get type() {
+    return this.document.type;
+  }
+
+  get description() {
+    return this.document.description;
+  }
+
+  getService(name: string) {
+    return this.services.find(service => service.name === name);
+  }
+
+  getProperty(name: string) {
+    const property = this.properties.get(name);
+    if (!property) {
+      throw new MiotSpecValidationError(`Unknown property "${name}".`);
+    }
+    return property;
+  }
+
+  getAction(name: string) {
+    const action = this.actions.get(name);
+    if (!action) {
+      throw new MiotSpecValidationError(`Unknown action "${name}".`);
+    }
+    return action;
+  }
+
+  getEvent(name: string) {
+    const event = this.events.get(name);
+    if (!event) {
+      throw new MiotSpecValidationError(`Unknown event "${name}".`);
+    }
+    return event;
+  }
+
+  findProperty({ siid, piid }: MiotPropertyId) {
+    return Array.from(this.properties.values()).find(
+      property => property.siid === siid && property.piid === piid
+    );
+  }
+
+  /**
+   * Checks the value against the format, value range and value list of the
+   * property. Throws `MiotSpecValidationError` when the value is invalid.
+   */
+  validate(name: string, value: unknown) {
+    validateValue(this.getProperty(name), value);
+  }
+
+  /**
+   * Converts named values to the payload of `setProperties`, validating each
+   * of them first.
+   */
+  toPropertyValues(values: Record<string, unknown>): MiotPropertyValue[] {
+    return Object.keys(values).map(name => {
+      const property = this.getProperty(name);
+      if (property.access.indexOf('write') < 0) {
+        throw new MiotSpecValidationError(
+          `Property "${name}" is not writable.`
+        );
+      }
+      validateValue(property, values[name]);
+      const { siid, piid } = property;
+      return { siid, piid, value: values[name] };
+    });
+  }
+
+  async readProperties(
+    client: MiIOClient,
+    names: string[],
+    options?: SendOptions
+  ): Promise<Record<string, MiotPropertyResult>> {
+    const properties = names.map(name => this.getProperty(name));
+    const results = await client.getProperties(
+      properties.map(({ siid, piid }) => ({ siid, piid })),
+      options
+    );
+    const resultByName: Record<string, MiotPropertyResult> = {};
+    names.forEach((name, index) => {
+      resultByName[name] = results[index];
+    });
+    return resultByName;
+  }
+
+  async writeProperties(
+    client: MiIOClient,
+    values: Record<string, unknown>,
+    options?: SendOptions
+  ): Promise<Record<string, MiotPropertyResult<never>>> {
+    const names = Object.keys(values);
+    const results = await client.setProperties(
+      this.toPropertyValues(values),
+      options
+    );
+    const resultByName: Record<string, MiotPropertyResult<never>> = {};
+    names.forEach((name, index) => {
+      resultByName[name] = results[index];
+    });
+    return resultByName;
+  }
+
+  private indexService(
+    serviceName: string,
+    {
+      iid: siid,
+      type,
+      description,
+      properties = [],
+      actions = [],
+      events = [],
+    }: MiotSpecDocument['services'][number]
+  ): MiotSpecService {
+    const serviceProperties = properties.map(property => {
+      const valueRange = property['value-range'];
+      const specProperty: MiotSpecProperty = {
+        name: `${serviceName}:${getUrnName(property.type)}`,
+        type: property.type,
+        description: property.description,
+        siid,
+        piid: property.iid,
+        format: property.format,
+        access: property.access,
+        unit: property.unit,
+        valueRange: valueRange && {
+          min: valueRange[0],
+          max: valueRange[1],
+          step: valueRange[2],
+        },
+        valueList: property['value-list'],
+      };
+      this.properties.set(specProperty.name, specProperty);
+      return specProperty;
+    });
+    const findProperties = (piids: number[]) =>
+      piids
+        .map(piid => serviceProperties.find(property => property.piid === piid))
+        .filter((property): property is MiotSpecProperty => !!property);
+
+    const serviceActions = actions.map(action => {
+      const specAction: MiotSpecAction = {
+        name: `${serviceName}:${getUrnName(action.type)}`,
+        type: action.type,
+        description: action.description,
+        siid,
+        aiid: action.iid,
+        in: findProperties(action.in),
+        out: findProperties(action.out),
+      };
+      this.actions.set(specAction.name, specAction);
+      return specAction;
+    });
+    const serviceEvents = events.map(event => {
+      const specEvent: MiotSpecEvent = {
+        name: `${serviceName}:${getUrnName(event.type)}`,
+        type: event.type,
+        description: event.description,
+        siid,
+        eiid: event.iid,
+        arguments: findProperties(event.arguments),
+      };
+      this.events.set(specEvent.name, specEvent);
+      return specEvent;
+    });
+    return {
+      name: serviceName,
+      type,
+      description,
+      siid,
+      properties: serviceProperties,
+      actions: serviceActions,
+      events: serviceEvents,
+    };
+  }
+}
+
+export function validateValue(property: MiotSpecProperty, value: unknown) {
+  const { name, format, valueRange, valueList } = property;
+  const fail = (reason: string) => {
+    throw new MiotSpecValidationError(
+      `Invalid value ${JSON.stringify(value)} for "${name}": ${reason}.`
+    );
+  };
+
+  switch (format) {
+  case 'bool':
+    if (typeof value !== 'boolean') {
+      fail('expected a boolean');
+    }
+    return;
+  case 'string':
+  case 'hex':
+    if (typeof value !== 'string') {
+      fail('expected a string');
+    }
+    return;
+  case 'float':
+    if (typeof value !== 'number' || !isFinite(value)) {
+      fail('expected a number');
+    }
+    break;
+  default: {
+    const range = INTEGER_RANGES[format];
+    if (typeof value !== 'number' || Math.floor(value) !== value) {
+      fail(`expected an integer of ${format}`);
+    } else if (range && (value < range[0] || value > range[1])) {
+      fail(`out of ${format} range`);
+    }
+  }
+  }
+
+  const numberValue = value as number;
+  if (valueRange) {
+    const { min, max, step } = valueRange;
+    if (numberValue < min || numberValue > max) {
+      fail(`expected a value between ${min} and ${max}`);
+    }
+    const steps = (numberValue - min) / step;
+    if (step > 0 && Math.abs(steps - Math.round(steps)) > STEP_EPSILON) {
+      fail(`expected a multiple of ${step} from ${min}`);
+    }
+  }
+  if (valueList && !valueList.some(item => item.value === numberValue)) {
+    fail(
+      `expected one of ${valueList
+        .map(item => `${item.value} (${item.description})`)
+        .join(', ')}`
+    );
+  }
+}
@@ -1,89 +1,118 @@
-import { Socket, RemoteInfo } from 'dgram';
-import { remove } from '../utils/array_utils';
-import { Logger } from './logger';
-import { Packet } from './packet';
+import { delay } from '../utils/promise_utils';
+import {
+  HEADER_BYTES,
+  MAGIC_BUFFER,
+  MAX_16_BYTES_BUFFER,
+  MAX_4_BYTES_BUFFER,
+  MAX_4_BYTES_NUMBER,
+  isTokenHidden,
+  Packet,
+  PacketImpl,
+} from './packet';
+import {
+  CloseHandler,
+  MessageHandler,
+  UdpNetwork,
+  Unsubscriber,
+} from './udp_network';
 
-export interface MessageHandler {
-  (message: Buffer, remoteInfo: RemoteInfo): void;
-}
+export { CloseHandler, MessageHandler, Unsubscriber };
+
+export const MIIO_PORT = 54321;
+const DEFAULT_BROADCAST_ADDRESS = '255.255.255.255';
+const DEFAULT_DISCOVERY_TIMEOUT = 3000;
 
 export interface MiIOService {
   send(packet: Packet, address: string, port: number): Promise<number>;
   addMessageHandler(handler: MessageHandler): Unsubscriber;
+  addCloseHandler(handler: CloseHandler): Unsubscriber;
   close(): Promise<void>;
 }
 
-export type Unsubscriber = () => void;
-export class MiIONetwork implements MiIOService {
-  private socketPromise: Promise<void> | undefined;
-  private messageHandlers: MessageHandler[] = [];
-  private listeningHandler: (() => void) | undefined;
-  private messageHandler:
-    | ((buffer: Buffer, remoteInfo: RemoteInfo) => void)
-    | undefined;
-
-  constructor(
-    private readonly socket: Socket,
-    private readonly logger: Logger
-  ) {}
-
-  ensureReady(): Promise<void> {
-    if (this.socketPromise) {
-      return this.socketPromise;
-    }
-
-    this.socketPromise = new Promise(resolve => {
-      const { socket } = this;
-      socket.on('error', this.logger.error);
+export interface DiscoveredDevice {
+  address: string;
+  port: number;
+  deviceId: number;
+  stamp: number;
+  // Only available when the device has not been provisioned yet.
+  token?: Buffer;
+}
 
-      this.listeningHandler = () => {
-        socket.setBroadcast(true);
-        this.logger.log('start listening on port ' + socket.address().port);
-        resolve();
-      };
-      socket.on('listening', this.listeningHandler);
+export interface DiscoveryOptions {
+  timeout?: number;
+  broadcastAddress?: string;
+  port?: number;
+  // Invoked as soon as a new device replies, before `discover` resolves.
+  onDevice?: (device: DiscoveredDevice) => void;
+}
 
-      this.messageHandler = (message, remoteInfo) => {
-        this.messageHandlers.forEach(handler => handler(message, remoteInfo));
-      };
-      socket.on('message', this.messageHandler);
+const HANDSHAKE_PACKET = new PacketImpl(
+  MAGIC_BUFFER,
+  HEADER_BYTES,
+  MAX_4_BYTES_BUFFER,
+  MAX_4_BYTES_NUMBER,
+  MAX_4_BYTES_NUMBER,
+  MAX_16_BYTES_BUFFER,
+  Buffer.of()
+);
 
-      const closeHandler = () => socket.removeAllListeners();
-      socket.on('close', closeHandler);
-      // Binding to local port to start listening.
-      socket.bind();
-    });
-    return this.socketPromise;
+export class MiIONetwork extends UdpNetwork implements MiIOService {
+  protected bind() {
+    // Binding to local port to start listening.
+    this.socket.bind();
   }
 
-  addMessageHandler(handler: MessageHandler): Unsubscriber {
-    this.messageHandlers.push(handler);
-    return () => {
-      const { messageHandlers } = this;
-      const index = messageHandlers.findIndex(
-        currentHandler => currentHandler === handler
-      );
-      this.messageHandlers = remove(messageHandlers, index);
-    };
+  protected onListening() {
+    this.socket.setBroadcast(true);
   }
 
-  async send(packet: Packet, address: string, port: number): Promise<number> {
-    await this.ensureReady();
-    return new Promise((resolve, reject) => {
-      this.socket.send(packet.raw, port, address, (err, bytes) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(bytes);
-        }
-      });
-    });
+  send(packet: Packet, address: string, port: number): Promise<number> {
+    return this.sendBuffer(packet.raw, address, port);
   }
 
-  async close() {
-    await this.ensureReady();
-    return new Promise<void>(resolve => {
-      this.socket.close(() => resolve());
+  /**
+   * Broadcasts a handshake ("Hello") packet and collects every device
+   * replying to it within the timeout.
+   */
+  async discover({
+    timeout = DEFAULT_DISCOVERY_TIMEOUT,
+    broadcastAddress = DEFAULT_BROADCAST_ADDRESS,
+    port = MIIO_PORT,
+    onDevice,
+  }: DiscoveryOptions = {}): Promise<DiscoveredDevice[]> {
+    const devices = new Map<string, DiscoveredDevice>();
+    const unsubscribe = this.addMessageHandler((message, remoteInfo) => {
+      let packet: PacketImpl;
+      try {
+        packet = PacketImpl.from(message);
+      } catch (err) {
+        this.logger.debug('Ignoring malformed packet during discovery', err);
+        return;
+      }
+      if (packet.packetLength !== HEADER_BYTES) {
+        // Only handshake replies are interesting during discovery.
+        return;
+      }
+      const { checksum, deviceId, stamp } = packet;
+      const device: DiscoveredDevice = {
+        address: remoteInfo.address,
+        port: remoteInfo.port,
+        deviceId,
+        stamp,
+        token: isTokenHidden(checksum) ? undefined : checksum,
+      };
+      if (devices.has(device.address)) {
+        return;
+      }
+      devices.set(device.address, device);
+      onDevice?.(device);
     });
+    try {
+      await this.send(HANDSHAKE_PACKET, broadcastAddress, port);
+      await delay(timeout);
+    } finally {
+      unsubscribe();
+    }
+    return Array.from(devices.values());
   }
 }
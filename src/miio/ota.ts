@@ -0,0 +1,180 @@
+import { createSocket } from 'dgram';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { basename } from 'path';
+import { md5 } from '../utils/crypto_utils';
+import { delay } from '../utils/promise_utils';
+import { MiIOClient } from './client';
+import { isRetryableError, MiIOFirmwareUpdateError } from './errors';
+
+export enum OtaState {
+  IDLE = 'idle',
+  DOWNLOADING = 'downloading',
+  INSTALLING = 'installing',
+  FAILED = 'failed',
+}
+
+export interface OtaProgress {
+  state: OtaState;
+  // In percent.
+  progress: number;
+}
+
+export interface FirmwareUpdateOptions {
+  // Address the device downloads the image from. Defaults to the local
+  // address routing to the device.
+  host?: string;
+  // Port of the HTTP server, a free one is picked by default.
+  port?: number;
+  // Time between two progress reads, in milliseconds.
+  pollInterval?: number;
+  // Time limit of the whole update, in milliseconds.
+  timeout?: number;
+  signal?: AbortSignal;
+  // Invoked whenever the state or the progress changes.
+  onProgress?: (progress: OtaProgress) => void;
+}
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_TIMEOUT = 600000;
+// Any port works, connecting a UDP socket sends nothing.
+const PROBE_PORT = 54321;
+
+// Finds the address of the interface routing to the remote address.
+function getLocalAddress(remoteAddress: string) {
+  const socket = createSocket('udp4');
+  return new Promise<string>((resolve, reject) => {
+    socket.once('error', err => {
+      socket.close();
+      reject(err);
+    });
+    socket.connect(PROBE_PORT, remoteAddress, () => {
+      const { address } = socket.address();
+      socket.close();
+      resolve(address);
+    });
+  });
+}
+
+async function serveImage(
+  image: Buffer,
+  fileName: string,
+  host: string,
+  port: number
+) {
+  const path = '/' + encodeURIComponent(fileName);
+  const server = createServer((req, res) => {
+    if (req.url !== path) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': image.length,
+      Connection: 'close',
+    });
+    res.end(image);
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.removeListener('error', reject);
+      resolve();
+    });
+  });
+  const { port: serverPort } = server.address() as AddressInfo;
+  return { server, url: `http://${host}:${serverPort}${path}` };
+}
+
+function closeServer(server: Server) {
+  return new Promise<void>(resolve => server.close(() => resolve()));
+}
+
+async function readProgress(client: MiIOClient, signal?: AbortSignal) {
+  const {
+    result: [state],
+  } = await client.send('miIO.get_ota_state', [], { signal });
+  const {
+    result: [progress],
+  } = await client.send('miIO.get_ota_progress', [], { signal });
+  return { state: state as OtaState, progress };
+}
+
+/**
+ * Serves the image over HTTP, asks the device to install it with `miIO.ota`
+ * and polls the progress until the device is back to idle. Rejects with
+ * `MiIOFirmwareUpdateError` when the device reports a failure.
+ */
+export async function updateFirmware(
+  client: MiIOClient,
+  firmwarePath: string,
+  {
+    host,
+    port = 0,
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    timeout = DEFAULT_TIMEOUT,
+    signal,
+    onProgress,
+  }: FirmwareUpdateOptions = {}
+): Promise<void> {
+  const image = await fs.readFile(firmwarePath);
+  const { server, url } = await serveImage(
+    image,
+    basename(firmwarePath),
+    host ?? (await getLocalAddress(client.address)),
+    port
+  );
+  try {
+    await client.send(
+      'miIO.ota',
+      {
+        mode: 'normal',
+        install: '1',
+        app_url: url,
+        file_md5: md5(image).toString('hex'),
+        proc: 'dnld install',
+      },
+      { signal }
+    );
+    const deadline = Date.now() + timeout;
+    let last: OtaProgress | undefined;
+    // The device may report idle for a moment before starting to download.
+    let started = false;
+    while (Date.now() < deadline) {
+      await delay(pollInterval, signal);
+      let current: OtaProgress;
+      try {
+        current = await readProgress(client, signal);
+      } catch (err) {
+        // The device is unreachable while rebooting after the install.
+        if (isRetryableError(err as Error)) {
+          continue;
+        }
+        throw err;
+      }
+      if (
+        !last ||
+        last.state !== current.state ||
+        last.progress !== current.progress
+      ) {
+        onProgress?.(current);
+      }
+      last = current;
+      if (current.state === OtaState.FAILED) {
+        throw new MiIOFirmwareUpdateError('The device failed to update.');
+      }
+      if (current.state !== OtaState.IDLE) {
+        started = true;
+      } else if (started || current.progress >= 100) {
+        return;
+      }
+    }
+    throw new MiIOFirmwareUpdateError(
+      `Update not finished after ${timeout}ms.`
+    );
+  } finally {
+    await closeServer(server);
+  }
+}
@@ -1,4 +1,5 @@
 import { Preconditions } from '../utils/preconditions';
+import { MiIOPacketFormatError } from './errors';
 
 export const MAX_2_BYTES_BUFFER = Buffer.alloc(2, 0xff);
 export const MAX_4_BYTES_BUFFER = Buffer.alloc(4, 0xff);
@@ -102,19 +103,23 @@ export class PacketImpl implements Packet {
   ) {
     Preconditions.checkArgument(
       magicNumber.equals(MAGIC_BUFFER) && magicNumber.byteLength === 2,
-      `Incorrect magic number or length: ${magicNumber}, ${magicNumber.byteLength}`
+      `Incorrect magic number or length: ${magicNumber}, ${magicNumber.byteLength}`,
+      MiIOPacketFormatError
     );
     Preconditions.checkArgument(
       unknown1.byteLength === 4,
-      `Incorrect unknown1 length: ${unknown1.byteLength}`
+      `Incorrect unknown1 length: ${unknown1.byteLength}`,
+      MiIOPacketFormatError
     );
     Preconditions.checkArgument(
       checksum.byteLength === 16,
-      `Incorrect checksum length: ${checksum.byteLength}`
+      `Incorrect checksum length: ${checksum.byteLength}`,
+      MiIOPacketFormatError
     );
     Preconditions.checkArgument(
       packetLength === this.raw.byteLength,
-      `Packet length mismatch. (${packetLength}/${this.raw.byteLength})`
+      `Packet length mismatch. (${packetLength}/${this.raw.byteLength})`,
+      MiIOPacketFormatError
     );
   }
 
@@ -131,6 +136,11 @@ export class PacketImpl implements Packet {
   }
 
   static from(buffer: Buffer) {
+    Preconditions.checkArgument(
+      buffer.byteLength >= HEADER_BYTES,
+      `Packet shorter than header. (${buffer.byteLength}/${HEADER_BYTES})`,
+      MiIOPacketFormatError
+    );
     const magicNumber = buffer.slice(0, 2);
     const packetLength = buffer.slice(2, 4).readUInt16BE();
     const unknown1 = buffer.slice(4, 8);
@@ -171,13 +181,27 @@ export class NormalRequest implements BaseMiIOMessage {
   ) {}
 }
 
+/**
+ * Provisioned devices mask the token in their handshake reply with either
+ * 0xff or 0x00, only unprovisioned devices reveal the real one.
+ */
+export function isTokenHidden(token: Buffer) {
+  return token.equals(MAX_16_BYTES_BUFFER) || token.equals(MIN_16_BYTES_BUFFER);
+}
+
 export class HandshakeResponse implements BaseMiIOMessage {
   readonly type = 'HANDSHAKE';
   constructor(
     readonly deviceId: number,
     readonly stamp: number,
-    readonly data: Buffer
+    readonly data: Buffer,
+    // The checksum field of the handshake reply, which carries the token.
+    readonly token: Buffer = MAX_16_BYTES_BUFFER
   ) {}
+
+  get isTokenHidden() {
+    return isTokenHidden(this.token);
+  }
 }
 
 export class NormalResponse implements BaseMiIOMessage {
@@ -0,0 +1,234 @@
+import { EventEmitter } from 'events';
+import { MiIOClient } from './client';
+import { Logger } from './logger';
+import { fromMiotDid } from './miot';
+
+// `get_properties` watches MIoT properties named by their did, e.g. "2-1".
+export type WatchMethod = 'get_prop' | 'get_properties';
+
+export interface WatchOptions {
+  // Polling interval in milliseconds. Watchers of the same client share the
+  // shortest interval.
+  interval?: number;
+  // Method used to read the properties.
+  method?: WatchMethod;
+  // Longest interval while the device is offline.
+  maxBackoff?: number;
+}
+
+export type PropertyChange<T> = {
+  [K in keyof T]: {
+    property: K;
+    oldValue: T[K] | undefined;
+    newValue: T[K];
+  };
+}[keyof T];
+
+export interface PropertyWatcherEvents<T> {
+  change: (change: PropertyChange<T>) => void;
+  error: (err: Error) => void;
+  // Emitted on the first failure after the device was reachable.
+  offline: (err: Error) => void;
+  online: () => void;
+}
+
+export interface PropertyWatcher<T> {
+  on<E extends keyof PropertyWatcherEvents<T>>(
+    event: E,
+    listener: PropertyWatcherEvents<T>[E]
+  ): this;
+  off<E extends keyof PropertyWatcherEvents<T>>(
+    event: E,
+    listener: PropertyWatcherEvents<T>[E]
+  ): this;
+  emit<E extends keyof PropertyWatcherEvents<T>>(
+    event: E,
+    ...args: Parameters<PropertyWatcherEvents<T>[E]>
+  ): boolean;
+}
+
+const DEFAULT_WATCH_OPTIONS: Required<WatchOptions> = {
+  interval: 5000,
+  method: 'get_prop',
+  maxBackoff: 60000,
+};
+
+const isEqual = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export class PropertyWatcher<T> extends EventEmitter {
+  private snapshot: Partial<T> = {};
+  private offline = false;
+
+  constructor(
+    readonly properties: (keyof T & string)[],
+    readonly options: Required<WatchOptions>,
+    private readonly onStop: () => void
+  ) {
+    super();
+  }
+
+  get values(): Partial<T> {
+    return { ...this.snapshot };
+  }
+
+  stop() {
+    this.onStop();
+  }
+
+  update(values: Partial<Record<string, unknown>>) {
+    if (this.offline) {
+      this.offline = false;
+      this.emit('online');
+    }
+    this.properties.forEach(property => {
+      if (!(property in values)) {
+        return;
+      }
+      const oldValue = this.snapshot[property];
+      const newValue = values[property] as T[typeof property];
+      if (property in this.snapshot && isEqual(oldValue, newValue)) {
+        return;
+      }
+      this.snapshot[property] = newValue;
+      this.emit('change', {
+        property,
+        oldValue,
+        newValue,
+      } as PropertyChange<T>);
+    });
+  }
+
+  fail(err: Error) {
+    if (!this.offline) {
+      this.offline = true;
+      this.emit('offline', err);
+    }
+    // Emitting 'error' without any listener throws.
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err);
+    }
+  }
+}
+
+/**
+ * Polls the properties of every watcher of a client, merging the properties
+ * read by the same method into one request.
+ */
+export class PropertyPoller {
+  private watchers: PropertyWatcher<Record<string, unknown>>[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+  private failures = 0;
+
+  constructor(
+    private readonly client: MiIOClient,
+    private readonly logger: Logger
+  ) {}
+
+  watch<T extends Record<string, unknown>>(
+    properties: (keyof T & string)[],
+    options: WatchOptions = {}
+  ): PropertyWatcher<T> {
+    const watcher: PropertyWatcher<T> = new PropertyWatcher<T>(
+      properties,
+      { ...DEFAULT_WATCH_OPTIONS, ...options },
+      () => this.remove(watcher)
+    );
+    this.watchers.push(watcher);
+    if (!this.timer && !this.polling) {
+      this.schedule(0);
+    }
+    return watcher;
+  }
+
+  stopAll() {
+    this.watchers = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private remove(watcher: PropertyWatcher<Record<string, unknown>>) {
+    this.watchers = this.watchers.filter(current => current !== watcher);
+    if (this.watchers.length === 0) {
+      this.stopAll();
+    }
+  }
+
+  private schedule(timeout: number) {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.poll();
+    }, timeout);
+  }
+
+  private getNextDelay() {
+    const interval = Math.min(
+      ...this.watchers.map(({ options }) => options.interval)
+    );
+    const maxBackoff = Math.min(
+      ...this.watchers.map(({ options }) => options.maxBackoff)
+    );
+    if (this.failures === 0) {
+      return interval;
+    }
+    return Math.min(maxBackoff, interval * Math.pow(2, this.failures));
+  }
+
+  private async read(method: WatchMethod, properties: string[]) {
+    const values: Record<string, unknown> = {};
+    if (method === 'get_properties') {
+      const results = await this.client.getProperties(
+        properties.map(fromMiotDid)
+      );
+      // Failed properties are left out and keep their last value.
+      results.forEach(({ code, value }, index) => {
+        if (code === 0) {
+          values[properties[index]] = value;
+        }
+      });
+      return values;
+    }
+    const { result } = await this.client.send(method, properties);
+    properties.forEach((property, index) => {
+      values[property] = result[index];
+    });
+    return values;
+  }
+
+  private async poll() {
+    this.polling = true;
+    const watchers = this.watchers;
+    const propertiesByMethod = new Map<WatchMethod, string[]>();
+    watchers.forEach(({ options: { method }, properties }) => {
+      const current = propertiesByMethod.get(method) ?? [];
+      properties.forEach(property => {
+        if (current.indexOf(property) < 0) {
+          current.push(property);
+        }
+      });
+      propertiesByMethod.set(method, current);
+    });
+
+    try {
+      for (const [method, properties] of Array.from(propertiesByMethod)) {
+        const values = await this.read(method, properties);
+        watchers
+          .filter(({ options }) => options.method === method)
+          .forEach(watcher => watcher.update(values));
+      }
+      this.failures = 0;
+    } catch (err) {
+      this.failures += 1;
+      this.logger.debug('Failed to poll properties.', err);
+      watchers.forEach(watcher => watcher.fail(err as Error));
+    } finally {
+      this.polling = false;
+    }
+    if (this.watchers.length > 0 && !this.timer) {
+      this.schedule(this.getNextDelay());
+    }
+  }
+}
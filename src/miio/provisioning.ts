@@ -0,0 +1,184 @@
+import { createSocket } from 'dgram';
+import { delay, throwIfAborted } from '../utils/promise_utils';
+import { MiIOClient } from './client';
+import {
+  MiIOProvisioningError,
+  MiIORetryExhaustedError,
+  MiIOTimeoutError,
+} from './errors';
+import { createMiIOClient } from './factory';
+import { ConsoleLogger, Logger } from './logger';
+import { MiIONetwork } from './network';
+
+export interface ProvisionOptions {
+  ssid: string;
+  password: string;
+  // Address of the device on its own access point. Looked up by broadcast
+  // when missing.
+  address?: string;
+  port?: number;
+  // ID of the Xiaomi account owning the device, defaults to 0 for none.
+  uid?: number;
+  // Extra fields of `miIO.config_router`, e.g. { country_domain: 'de' }.
+  config?: Record<string, unknown>;
+  // Time to wait for the device to leave its access point, in milliseconds.
+  dropTimeout?: number;
+  // Time between handshakes while waiting for the device to leave.
+  probeInterval?: number;
+  logger?: Logger;
+  signal?: AbortSignal;
+}
+
+export interface ProvisionResult {
+  address: string;
+  deviceId?: number;
+  // Needed to talk to the device once it joined the network.
+  token: Buffer;
+}
+
+// Tokens are only revealed in AP mode, any token works for the handshake.
+const PLACEHOLDER_TOKEN = Buffer.alloc(16);
+const DEFAULT_DROP_TIMEOUT = 30000;
+const DEFAULT_PROBE_INTERVAL = 1000;
+const PROBE_TIMEOUT = 2000;
+const DISCOVERY_TIMEOUT = 3000;
+// Socket errors once the host lost the link to the access point of the device.
+const DISCONNECTED_ERROR_CODES = [
+  'ENETUNREACH',
+  'ENETDOWN',
+  'EHOSTUNREACH',
+  'EHOSTDOWN',
+  'EADDRNOTAVAIL',
+];
+
+// Whether the error means the device left its access point.
+function isDropOffError(err: unknown): boolean {
+  if (err instanceof MiIORetryExhaustedError) {
+    return isDropOffError(err.cause[err.cause.length - 1]);
+  }
+  return (
+    err instanceof MiIOTimeoutError ||
+    DISCONNECTED_ERROR_CODES.indexOf(
+      (err as NodeJS.ErrnoException).code ?? ''
+    ) >= 0
+  );
+}
+
+async function findDevice(logger: Logger) {
+  const network = new MiIONetwork(createSocket('udp4'), logger);
+  try {
+    const [device] = await network.discover({ timeout: DISCOVERY_TIMEOUT });
+    if (!device) {
+      throw new MiIOProvisioningError(
+        'No device found, make sure to join its access point first.'
+      );
+    }
+    return device.address;
+  } finally {
+    await network.close();
+  }
+}
+
+async function captureToken(
+  address: string,
+  port: number | undefined,
+  logger: Logger
+) {
+  const client = createMiIOClient({
+    address,
+    port,
+    token: PLACEHOLDER_TOKEN,
+    logger,
+  });
+  try {
+    return await client.getDeviceToken();
+  } finally {
+    await client.close();
+  }
+}
+
+// Resolves once a handshake times out or cannot be sent anymore, which means
+// the device left its access point to join the configured network.
+async function waitForDropOff(
+  client: MiIOClient,
+  dropTimeout: number,
+  probeInterval: number,
+  signal?: AbortSignal
+) {
+  const deadline = Date.now() + dropTimeout;
+  while (Date.now() < deadline) {
+    throwIfAborted(signal);
+    try {
+      await client.getDeviceToken();
+    } catch (err) {
+      if (isDropOffError(err)) {
+        return;
+      }
+      throw err;
+    }
+    await delay(probeInterval, signal);
+  }
+  throw new MiIOProvisioningError(
+    `Device still reachable after ${dropTimeout}ms, check the Wi-Fi credentials.`
+  );
+}
+
+/**
+ * Joins a factory reset device to a Wi-Fi network, without the Mi Home app:
+ * the token revealed by the handshake is captured, `miIO.config_router` is
+ * sent, then the device is expected to leave its access point. The machine
+ * running this must be connected to that access point.
+ */
+export async function provisionDevice({
+  ssid,
+  password,
+  address,
+  port,
+  uid = 0,
+  config = {},
+  dropTimeout = DEFAULT_DROP_TIMEOUT,
+  probeInterval = DEFAULT_PROBE_INTERVAL,
+  logger = new ConsoleLogger(),
+  signal,
+}: ProvisionOptions): Promise<ProvisionResult> {
+  const deviceAddress = address ?? (await findDevice(logger));
+  throwIfAborted(signal);
+  const token = await captureToken(deviceAddress, port, logger);
+  if (!token) {
+    throw new MiIOProvisioningError(
+      'Token is hidden, the device has been provisioned already. Reset it first.'
+    );
+  }
+  const client = createMiIOClient({
+    address: deviceAddress,
+    port,
+    token,
+    logger,
+    timeouts: { request: PROBE_TIMEOUT },
+    // Sending the config twice could reach the device while it switches
+    // networks.
+    retryPolicy: { maxAttempts: 1 },
+  });
+  try {
+    try {
+      await client.send(
+        'miIO.config_router',
+        { ...config, ssid, passwd: password, uid },
+        { signal }
+      );
+    } catch (err) {
+      // The device may leave before its reply arrives, the drop-off check
+      // tells whether the config was applied.
+      if (!isDropOffError(err)) {
+        throw err;
+      }
+      logger.debug('No reply to the router config.', err);
+    }
+    const { deviceId } = client;
+    logger.log('Router configured, waiting for the device to leave.');
+    await waitForDropOff(client, dropTimeout, probeInterval, signal);
+    return { address: deviceAddress, deviceId, token };
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,134 @@
+import { MiIOAbortError, MiIOQueueOverflowError } from './errors';
+
+export interface SchedulerConfig {
+  // Number of tasks allowed to run at the same time.
+  maxInFlight: number;
+  // Minimum time between the start of two tasks, in milliseconds.
+  minInterval: number;
+  // Number of tasks allowed to wait in the queue.
+  maxQueueLength: number;
+}
+
+export interface ScheduleOptions {
+  // Tasks with higher priority run first. Defaults to 0.
+  priority?: number;
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  priority: number;
+  run: () => void;
+  cancel: (err: Error) => void;
+}
+
+const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxInFlight: 1,
+  minInterval: 0,
+  maxQueueLength: Infinity,
+};
+
+/**
+ * Queues tasks sent to the same device, so the device does not receive more
+ * requests than it is able to handle.
+ */
+export class RequestScheduler {
+  private readonly config: SchedulerConfig;
+  private queue: QueuedTask[] = [];
+  private inFlight = 0;
+  private lastStartTime: number | undefined;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  get pendingCount() {
+    return this.queue.length;
+  }
+
+  schedule<T>(
+    task: () => Promise<T>,
+    { priority = 0, signal }: ScheduleOptions = {}
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new MiIOAbortError());
+    }
+    if (this.queue.length >= this.config.maxQueueLength) {
+      return Promise.reject(
+        new MiIOQueueOverflowError(this.config.maxQueueLength)
+      );
+    }
+    return new Promise<T>((resolve, reject) => {
+      const queuedTask: QueuedTask = {
+        priority,
+        run: () => {
+          signal?.removeEventListener('abort', abortHandler);
+          this.inFlight += 1;
+          this.lastStartTime = Date.now();
+          task()
+            .then(resolve, reject)
+            .then(() => {
+              this.inFlight -= 1;
+              this.drain();
+            });
+        },
+        cancel: err => {
+          signal?.removeEventListener('abort', abortHandler);
+          const index = this.queue.indexOf(queuedTask);
+          if (index >= 0) {
+            this.queue.splice(index, 1);
+          }
+          reject(err);
+        },
+      };
+      const abortHandler = () => queuedTask.cancel(new MiIOAbortError());
+      signal?.addEventListener('abort', abortHandler, { once: true });
+      this.enqueue(queuedTask);
+      this.drain();
+    });
+  }
+
+  /**
+   * Rejects every task waiting in the queue. Running tasks are not affected.
+   */
+  clear(err: Error) {
+    [...this.queue].forEach(task => task.cancel(err));
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Keeps the queue sorted by priority, tasks of the same priority run in the
+  // order they were scheduled.
+  private enqueue(task: QueuedTask) {
+    const index = this.queue.findIndex(
+      ({ priority }) => priority < task.priority
+    );
+    if (index < 0) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+  }
+
+  private drain() {
+    if (this.timer) {
+      return;
+    }
+    while (this.inFlight < this.config.maxInFlight && this.queue.length > 0) {
+      const waitTime =
+        this.lastStartTime == null
+          ? 0
+          : this.lastStartTime + this.config.minInterval - Date.now();
+      if (waitTime > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, waitTime);
+        return;
+      }
+      this.queue.shift()?.run();
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { createCipheriv, createDecipheriv } from 'crypto';
 import { md5 } from '../utils/crypto_utils';
 import { Preconditions } from '../utils/preconditions';
+import { MiIOChecksumError } from './errors';
 import { HandshakeRequest, HandshakeResponse, HEADER_BYTES, MiIORequest, MiIOResponse, NormalResponse, numToBytes, Packet, PacketImpl } from './packet';
 
 export const MAX_2_BYTES_BUFFER = Buffer.alloc(2, 0xff);
@@ -106,10 +107,11 @@ export class ResponseDeserializer implements Deserializer<MiIOResponse> {
   }
 
   private isHandshake(packet: Packet) {
+    // The checksum field is not checked here since unprovisioned devices
+    // put their token in it instead of 0xff.
     return (
       packet.unknown1.equals(DEFAULT_UNKNOWN_BUFFER) &&
-      packet.packetLength === HEADER_BYTES &&
-      packet.checksum.equals(MAX_16_BYTES_BUFFER)
+      packet.packetLength === HEADER_BYTES
     );
   }
 
@@ -118,12 +120,14 @@ export class ResponseDeserializer implements Deserializer<MiIOResponse> {
       return new HandshakeResponse(
         packet.deviceId,
         packet.stamp,
-        this.decryptedData(packet.data)
+        this.decryptedData(packet.data),
+        packet.checksum
       );
     }
     Preconditions.checkArgument(
       this.isChecksumValid(packet),
-      'Checksum failed.'
+      'Checksum failed.',
+      MiIOChecksumError
     );
     return new NormalResponse(
       packet.deviceId,
@@ -0,0 +1,128 @@
+import { RemoteInfo, Socket } from 'dgram';
+import { remove } from '../utils/array_utils';
+import { Logger } from './logger';
+
+export interface MessageHandler {
+  (message: Buffer, remoteInfo: RemoteInfo): void;
+}
+
+export type CloseHandler = () => void;
+
+export type Unsubscriber = () => void;
+
+/**
+ * Socket handling shared by the transports: lazy binding, message and close
+ * handlers, sending and closing. Subclasses decide how the socket is bound.
+ */
+export abstract class UdpNetwork {
+  private socketPromise: Promise<void> | undefined;
+  private closePromise: Promise<void> | undefined;
+  private messageHandlers: MessageHandler[] = [];
+  private closeHandlers: CloseHandler[] = [];
+
+  constructor(
+    protected readonly socket: Socket,
+    protected readonly logger: Logger
+  ) {}
+
+  // Binds the socket, invoked once by `ensureReady`.
+  protected abstract bind(): void;
+
+  // Configures the socket once it is bound.
+  protected abstract onListening(): void;
+
+  ensureReady(): Promise<void> {
+    if (this.socketPromise) {
+      return this.socketPromise;
+    }
+
+    this.socketPromise = new Promise((resolve, reject) => {
+      const { socket } = this;
+      socket.on('error', this.logger.error);
+      // Binding fails e.g. when the port is taken.
+      const bindErrorHandler = (err: Error) => reject(err);
+      socket.once('error', bindErrorHandler);
+
+      socket.on('listening', () => {
+        socket.removeListener('error', bindErrorHandler);
+        this.onListening();
+        this.logger.log('start listening on port ' + socket.address().port);
+        resolve();
+      });
+
+      socket.on('message', (message: Buffer, remoteInfo: RemoteInfo) => {
+        this.messageHandlers.forEach(handler => handler(message, remoteInfo));
+      });
+
+      socket.on('close', () => {
+        socket.removeAllListeners();
+        // Closing again would throw once the socket is gone.
+        this.closePromise = this.closePromise ?? Promise.resolve();
+        this.notifyClosed();
+      });
+      this.bind();
+    });
+    return this.socketPromise;
+  }
+
+  addMessageHandler(handler: MessageHandler): Unsubscriber {
+    this.messageHandlers.push(handler);
+    return () => {
+      const { messageHandlers } = this;
+      const index = messageHandlers.indexOf(handler);
+      if (index >= 0) {
+        this.messageHandlers = remove(messageHandlers, index);
+      }
+    };
+  }
+
+  /**
+   * Registers a handler invoked once the socket is closed, either through
+   * `close` or by the socket itself.
+   */
+  addCloseHandler(handler: CloseHandler): Unsubscriber {
+    this.closeHandlers.push(handler);
+    return () => {
+      const { closeHandlers } = this;
+      const index = closeHandlers.indexOf(handler);
+      if (index >= 0) {
+        this.closeHandlers = remove(closeHandlers, index);
+      }
+    };
+  }
+
+  private notifyClosed() {
+    const { closeHandlers } = this;
+    this.closeHandlers = [];
+    closeHandlers.forEach(handler => handler());
+  }
+
+  protected async sendBuffer(
+    buffer: Buffer,
+    address: string,
+    port: number
+  ): Promise<number> {
+    await this.ensureReady();
+    return new Promise((resolve, reject) => {
+      this.socket.send(buffer, port, address, (err, bytes) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(bytes);
+        }
+      });
+    });
+  }
+
+  close() {
+    if (!this.closePromise) {
+      this.closePromise = this.ensureReady().then(() => {
+        this.notifyClosed();
+        return new Promise<void>(resolve => {
+          this.socket.close(() => resolve());
+        });
+      });
+    }
+    return this.closePromise;
+  }
+}
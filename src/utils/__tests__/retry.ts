@@ -0,0 +1,82 @@
+import {
+  MiIODeviceError,
+  MiIORetryExhaustedError,
+  MiIOTimeoutError,
+} from '../../miio/errors';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, retry } from '../retry';
+
+describe('retry', () => {
+  const NO_DELAY = { initialDelay: 0, jitter: 0 };
+
+  it('resolves with the first successful attempt', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new MiIOTimeoutError(10))
+      .mockResolvedValueOnce('result');
+    expect(await retry(fn, NO_DELAY)).toBe('result');
+    expect(fn).toBeCalledTimes(2);
+    expect(fn).toHaveBeenNthCalledWith(2, { attempt: 2, timeout: undefined });
+  });
+
+  it('rejects with every error once attempts are exhausted', async () => {
+    const errors = [new Error('1'), new Error('2')];
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(errors[0])
+      .mockRejectedValueOnce(errors[1]);
+    const error = (await retry(fn, { ...NO_DELAY, maxAttempts: 2 }).catch(
+      e => e
+    )) as MiIORetryExhaustedError;
+    expect(error).toBeInstanceOf(MiIORetryExhaustedError);
+    expect(error.cause).toEqual(errors);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const deviceError = new MiIODeviceError(-32601, 'Method not found');
+    const fn = jest.fn().mockRejectedValue(deviceError);
+    await expect(retry(fn, NO_DELAY)).rejects.toBe(deviceError);
+    expect(fn).toBeCalledTimes(1);
+  });
+
+  it('invokes onRetry before the next attempt', async () => {
+    const error = new Error();
+    const onRetry = jest.fn();
+    const fn = jest.fn().mockRejectedValueOnce(error).mockResolvedValue(1);
+    await retry(fn, { ...NO_DELAY, onRetry });
+    expect(onRetry).toBeCalledWith(error, 1);
+  });
+
+  it('passes the attempt timeout to every attempt', async () => {
+    const fn = jest.fn().mockResolvedValue(1);
+    await retry(fn, { attemptTimeout: 500 });
+    expect(fn).toBeCalledWith({ attempt: 1, timeout: 500 });
+  });
+
+  it('stops retrying when the deadline is reached', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error());
+    const error = await retry(fn, {
+      initialDelay: 1000,
+      jitter: 0,
+      deadline: 500,
+    }).catch(e => e);
+    expect(error).toBeInstanceOf(MiIORetryExhaustedError);
+    expect(fn).toBeCalledTimes(1);
+    expect(fn.mock.calls[0][0].timeout).toBeLessThanOrEqual(500);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('grows exponentially up to the max delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+    expect(getBackoffDelay(policy, 1)).toBe(100);
+    expect(getBackoffDelay(policy, 2)).toBe(200);
+    expect(getBackoffDelay(policy, 3)).toBe(400);
+    expect(getBackoffDelay(policy, 10)).toBe(2000);
+  });
+
+  it('randomizes delay within the jitter ratio', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0.2 };
+    expect(getBackoffDelay(policy, 1, () => 0)).toBe(80);
+    expect(getBackoffDelay(policy, 1, () => 1)).toBe(120);
+  });
+});
@@ -0,0 +1,28 @@
+import { parseToken } from '../token_utils';
+
+describe('parseToken', () => {
+  const HEX = '12345678901234567890123456789012';
+  const BUFFER = Buffer.from(HEX, 'hex');
+
+  it('parses hex tokens', () => {
+    expect(parseToken(HEX)).toEqual(BUFFER);
+    expect(parseToken(` ${HEX.toUpperCase()}\n`)).toEqual(BUFFER);
+  });
+
+  it('parses base64 tokens', () => {
+    expect(parseToken(BUFFER.toString('base64'))).toEqual(BUFFER);
+  });
+
+  it('accepts buffers', () => {
+    expect(parseToken(BUFFER)).toBe(BUFFER);
+  });
+
+  it('throws when the token length is incorrect', () => {
+    expect(() => parseToken(Buffer.alloc(8))).toThrow('token length');
+    expect(() => parseToken('1234')).toThrow('token length');
+  });
+
+  it('throws when the token is neither hex nor base64', () => {
+    expect(() => parseToken('not a token!')).toThrow('hex or a base64');
+  });
+});
@@ -6,9 +6,13 @@ export class Preconditions {
     return value;
   }
 
-  static checkArgument(arg: boolean, message?: string): asserts arg {
+  static checkArgument(
+    arg: boolean,
+    message?: string,
+    ErrorType: new (message: string) => Error = Error
+  ): asserts arg {
     if (!arg) {
-      throw new Error(message ?? 'arugment check fail');
+      throw new ErrorType(message ?? 'arugment check fail');
     }
   }
 }
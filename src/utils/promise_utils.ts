@@ -0,0 +1,29 @@
+import { MiIOAbortError } from '../miio/errors';
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new MiIOAbortError();
+  }
+}
+
+/**
+ * Resolves after the timeout, or rejects with `MiIOAbortError` as soon as the
+ * signal is aborted.
+ */
+export function delay(timeout: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new MiIOAbortError());
+      return;
+    }
+    const abortHandler = () => {
+      clearTimeout(timer);
+      reject(new MiIOAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abortHandler);
+      resolve();
+    }, timeout);
+    signal?.addEventListener('abort', abortHandler, { once: true });
+  });
+}
@@ -1,18 +1,97 @@
-export function retry<A extends any[], R>(
-  fn: (...args: A) => Promise<R>,
-  initialQuota: number
-): (...args: A) => Promise<R> {
-  return async (...args: A) => {
-    let quota = initialQuota;
-    let lastError: Error | undefined;
-    while (quota > 0) {
-      try {
-        return await fn(...args);
-      } catch (err) {
-        quota -= 1;
-        lastError = err as Error;
+import { isRetryableError, MiIORetryExhaustedError } from '../miio/errors';
+import { delay, throwIfAborted } from './promise_utils';
+
+export interface RetryPolicy {
+  // Number of attempts in total, including the first one.
+  maxAttempts: number;
+  // Delay before the first retry. Grows by `backoffFactor` on every retry.
+  initialDelay: number;
+  maxDelay: number;
+  backoffFactor: number;
+  // Ratio of the delay being randomized, e.g. 0.2 means +-20%.
+  jitter: number;
+  // Time limit of a single attempt.
+  attemptTimeout?: number;
+  // Time limit of all attempts together, delays included.
+  deadline?: number;
+  isRetryable: (err: Error, attempt: number) => boolean;
+  // Invoked before waiting for the next attempt.
+  onRetry?: (err: Error, attempt: number) => void;
+}
+
+export interface RetryContext {
+  // Starts from 1.
+  attempt: number;
+  // Time left for this attempt, undefined if there is no limit.
+  timeout?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 2000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  isRetryable: isRetryableError,
+};
+
+export function getBackoffDelay(
+  { initialDelay, maxDelay, backoffFactor, jitter }: RetryPolicy,
+  attempt: number,
+  random = Math.random
+) {
+  const base = Math.min(
+    maxDelay,
+    initialDelay * Math.pow(backoffFactor, attempt - 1)
+  );
+  return Math.max(0, Math.round(base * (1 - jitter + 2 * jitter * random())));
+}
+
+export async function retry<R>(
+  fn: (context: RetryContext) => Promise<R>,
+  policy: Partial<RetryPolicy> = {},
+  signal?: AbortSignal
+): Promise<R> {
+  const resolvedPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const {
+    maxAttempts,
+    attemptTimeout,
+    deadline,
+    isRetryable,
+    onRetry,
+  } = resolvedPolicy;
+  const startTime = Date.now();
+  const getRemainingTime = () =>
+    deadline == null ? undefined : deadline - (Date.now() - startTime);
+  const errors: Error[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    throwIfAborted(signal);
+    const remainingTime = getRemainingTime();
+    try {
+      return await fn({
+        attempt,
+        timeout:
+          remainingTime == null
+            ? attemptTimeout
+            : Math.min(attemptTimeout ?? remainingTime, remainingTime),
+      });
+    } catch (err) {
+      if (signal?.aborted || !isRetryable(err as Error, attempt)) {
+        throw err;
       }
+      errors.push(err as Error);
+    }
+    if (attempt >= maxAttempts) {
+      break;
+    }
+    const backoff = getBackoffDelay(resolvedPolicy, attempt);
+    const timeLeft = getRemainingTime();
+    if (timeLeft != null && timeLeft <= backoff) {
+      break;
     }
-    throw new Error('Running out of retry quota. Error: ' + lastError?.message);
-  };
+    onRetry?.(errors[errors.length - 1], attempt);
+    await delay(backoff, signal);
+  }
+  throw new MiIORetryExhaustedError(errors);
 }
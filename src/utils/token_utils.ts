@@ -0,0 +1,34 @@
+import { Preconditions } from './preconditions';
+
+export const TOKEN_BYTES = 16;
+
+// Tokens are usually shown as 32 hex characters, some tools export them in
+// base64 instead.
+export type TokenLike = string | Buffer;
+
+const HEX_TOKEN_REGEX = /^[0-9a-fA-F]{32}$/;
+const BASE64_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export function parseToken(token: TokenLike): Buffer {
+  if (Buffer.isBuffer(token)) {
+    Preconditions.checkArgument(
+      token.byteLength === TOKEN_BYTES,
+      `Incorrect token length: ${token.byteLength}`
+    );
+    return token;
+  }
+  const trimmed = token.trim();
+  if (HEX_TOKEN_REGEX.test(trimmed)) {
+    return Buffer.from(trimmed, 'hex');
+  }
+  Preconditions.checkArgument(
+    BASE64_REGEX.test(trimmed),
+    'Token should be either a 32-char hex or a base64 string.'
+  );
+  const buffer = Buffer.from(trimmed, 'base64');
+  Preconditions.checkArgument(
+    buffer.byteLength === TOKEN_BYTES,
+    `Incorrect token length: ${buffer.byteLength}`
+  );
+  return buffer;
+}